@@ -0,0 +1,167 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { styleMap } from 'lit/directives/style-map.js';
+import type { AudioChunkStats, JitterBufferMetrics } from '../types';
+
+/** A dropdown with counters for the audio chunks received from the session and the playback buffer's health. */
+@customElement('audio-diagnostics')
+export class AudioDiagnostics extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      position: relative;
+    }
+    .panel-button {
+      font: inherit;
+      font-size: 1.8vmin;
+      padding: 0.8vmin 1vmin;
+      color: var(--button-small-text-color, #CCCCCC);
+      background: var(--button-small-bg-color, #282828);
+      border: 1.5px solid var(--button-small-border-color, #404040);
+      border-radius: 4px;
+      cursor: pointer;
+      user-select: none;
+      white-space: nowrap;
+    }
+    .panel-button:hover {
+      background-color: var(--button-small-bg-color-hover, #383838);
+      border-color: var(--button-small-border-color-hover, #505050);
+    }
+    .panel-button.warning {
+      border-color: var(--theme-color-yellow, #FFFF00);
+    }
+    .dropdown {
+      position: absolute;
+      top: calc(100% + 8px);
+      left: 0;
+      z-index: 10;
+      min-width: 240px;
+      padding: 1vmin 1.5vmin;
+      background-color: var(--button-small-bg-color, #282828);
+      border: 1.5px solid var(--button-small-border-color, #404040);
+      border-radius: 6px;
+      box-shadow: 0 4px 8px rgba(0,0,0,0.2);
+      color: var(--button-small-text-color, #CCCCCC);
+      font-size: 1.6vmin;
+    }
+    .dropdown.hidden {
+      display: none;
+    }
+    .section-title {
+      font-weight: bold;
+      margin: 0.5vmin 0;
+    }
+    table {
+      width: 100%;
+      border-collapse: collapse;
+    }
+    td {
+      padding: 0.3vmin 0;
+    }
+    td:last-child {
+      text-align: right;
+      font-variant-numeric: tabular-nums;
+    }
+    .last-issue {
+      margin: 0.8vmin 0;
+      color: #888;
+      white-space: normal;
+    }
+    .fill-bar {
+      position: relative;
+      height: 0.8vmin;
+      margin: 0.5vmin 0;
+      background: #111;
+      border-radius: 2px;
+      overflow: hidden;
+    }
+    .fill-bar .fill {
+      height: 100%;
+      background: var(--theme-color-cyan, #00FFFF);
+    }
+    .fill-bar .target {
+      position: absolute;
+      top: 0;
+      width: 2px;
+      height: 100%;
+      background: var(--theme-color-magenta, #FF00FF);
+    }
+    button.reset {
+      font: inherit;
+      cursor: pointer;
+    }
+  `;
+
+  @property({ type: Object }) stats: AudioChunkStats | null = null;
+  @property({ type: Object }) bufferMetrics: JitterBufferMetrics | null = null;
+  @property({ type: Number }) sampleRate = 0;
+  @property({ type: Number }) numChannels = 0;
+
+  @state() private isOpen = false;
+
+  private renderBufferMetrics() {
+    if (!this.bufferMetrics) return '';
+    const { state, fillSeconds, targetSeconds, capacitySeconds, underruns, overflows } = this.bufferMetrics;
+    const percent = (seconds: number) => `${Math.min(100, (seconds / capacitySeconds) * 100)}%`;
+    return html`
+      <div class="section-title">Playback buffer</div>
+      <div>${fillSeconds.toFixed(2)} s buffered, target ${targetSeconds.toFixed(2)} s (${state})</div>
+      <div class="fill-bar" title="Buffered audio; the marker shows the target latency">
+        <div class="fill" style=${styleMap({ width: percent(fillSeconds) })}></div>
+        <div class="target" style=${styleMap({ left: percent(targetSeconds) })}></div>
+      </div>
+      <table>
+        <tr><td>Underruns</td><td>${underruns}</td></tr>
+        <tr><td>Overflows</td><td>${overflows}</td></tr>
+      </table>
+    `;
+  }
+
+  override render() {
+    if (!this.stats) return '';
+    const { received, queued, dropped, malformed, formatMismatches, lastIssue } = this.stats;
+    const underruns = this.bufferMetrics?.underruns ?? 0;
+    const problems = malformed + formatMismatches + underruns;
+    const rows: [string, number][] = [
+      ['Received', received],
+      ['Queued', queued],
+      ['Dropped', dropped],
+      ['Malformed', malformed],
+      ['Format mismatches', formatMismatches],
+    ];
+    return html`
+      <button
+        class=${classMap({ 'panel-button': true, warning: problems > 0 })}
+        @click=${() => { this.isOpen = !this.isOpen; }}
+        aria-expanded=${this.isOpen}
+        title="Audio stream diagnostics"
+      >
+        Audio${problems > 0 ? ` ⚠ ${problems}` : ''}
+      </button>
+      <div class=${classMap({ dropdown: true, hidden: !this.isOpen })}>
+        <div class="section-title">Audio chunks</div>
+        <div>${this.sampleRate} Hz, ${this.numChannels} channel${this.numChannels === 1 ? '' : 's'}</div>
+        <table>
+          ${rows.map(([label, value]) => html`<tr><td>${label}</td><td>${value}</td></tr>`)}
+        </table>
+        ${lastIssue ? html`<div class="last-issue">Last issue: ${lastIssue}</div>` : ''}
+        ${this.renderBufferMetrics()}
+        <button
+          class="reset"
+          @click=${() => this.dispatchEvent(new CustomEvent('audio-diagnostics-reset', { bubbles: true, composed: true }))}
+        >Reset counters</button>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'audio-diagnostics': AudioDiagnostics;
+  }
+}
@@ -5,7 +5,22 @@
 import { css, html, LitElement } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
 import { classMap } from 'lit/directives/class-map.js';
+import type { MidiLearnRegistry } from '../utils/MidiLearnRegistry';
+import { BpmRamp, rampDurationSeconds, type RampUnit } from '../utils/bpmRamp';
+import './MidiLearnBadge';
 
+/** Taps further apart than this start a new measurement. */
+const TAP_RESET_MS = 2000;
+const MAX_TAPS = 8;
+/** Intervals further than this fraction from the median are treated as missed or double taps. */
+const TAP_OUTLIER_RATIO = 0.25;
+export const FINE_NUDGE = 0.1;
+export const COARSE_NUDGE = 1;
+
+/**
+ * BPM display with a dropdown fader, tap tempo and nudge buttons.
+ * Also ramps the tempo to a target over time. Keyboard: T taps, [ and ] nudge by 0.1, Shift+[ and Shift+] by 1.
+ */
 @customElement('bpm-controller')
 export class BpmController extends LitElement {
   static override styles = css`
@@ -71,7 +86,7 @@ export class BpmController extends LitElement {
     }
 
     .fader-wrapper.visible {
-      max-height: 220px; /* Approximate height for fader + padding */
+      max-height: 420px; /* Approximate height for tempo tools, ramp, fader + padding */
       opacity: 0.8;
       transform: translateY(0) scaleY(1);
       pointer-events: auto;
@@ -123,6 +138,98 @@ export class BpmController extends LitElement {
       border: 1px solid #1c1c1c;
     }
 
+    .external-clock {
+      font-size: 1.2vmin;
+      color: var(--theme-color-cyan, #00FFFF);
+      margin-left: 0.5vmin;
+    }
+
+    midi-learn-badge {
+      margin-top: 0.5vmin;
+    }
+
+    .tempo-tools {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 6px;
+      margin-bottom: 10px;
+    }
+    .nudge-row {
+      display: flex;
+      gap: 4px;
+    }
+    .tool {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+    }
+    .tempo-tools button {
+      font: inherit;
+      font-size: 1.4vmin;
+      min-width: 32px;
+      padding: 2px 4px;
+      color: var(--button-small-text-color, #CCCCCC);
+      background: #1c1c1c;
+      border: 1px solid var(--button-small-border-color, #404040);
+      border-radius: 3px;
+      cursor: pointer;
+    }
+    .tempo-tools button:disabled {
+      opacity: 0.4;
+      cursor: default;
+    }
+    .tap-button {
+      width: 100%;
+    }
+
+    .ramp {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      margin-bottom: 10px;
+      font-size: 1.4vmin;
+      color: var(--button-small-text-color, #CCCCCC);
+    }
+    .ramp-row {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+    }
+    .ramp input,
+    .ramp select {
+      font: inherit;
+      width: 4.5em;
+      background: #1c1c1c;
+      color: inherit;
+      border: 1px solid var(--button-small-border-color, #404040);
+      border-radius: 3px;
+    }
+    .ramp button {
+      font: inherit;
+      flex: 1;
+      color: inherit;
+      background: #1c1c1c;
+      border: 1px solid var(--button-small-border-color, #404040);
+      border-radius: 3px;
+      cursor: pointer;
+    }
+    .ramp-progress {
+      width: 100%;
+      height: 3px;
+      background: #505050;
+      border-radius: 2px;
+      overflow: hidden;
+    }
+    .ramp-progress > div {
+      height: 100%;
+      background: var(--theme-color-magenta, #FF00FF);
+    }
+    .bpm-container > .ramp-progress {
+      width: 70px;
+      margin-top: 2px;
+    }
+
     /* Mozilla Track */
     input[type="range"][orient="vertical"]::-moz-range-track {
       width: 8px;
@@ -136,18 +243,110 @@ export class BpmController extends LitElement {
   @property({ type: Number }) currentBpm = 120.0;
   @property({ type: Number }) minBpm = 80.0;
   @property({ type: Number }) maxBpm = 180.0;
+  @property({ type: Object }) midiLearn: MidiLearnRegistry | null = null;
+  @property({ type: Boolean }) showMidi = false;
+  /** Set while the tempo follows incoming MIDI clock; the fader is locked then. */
+  @property({ type: Boolean }) externalClock = false;
 
   @state() private isFaderVisible = false;
+  private tapTimes: number[] = [];
 
-  private toggleFader() {
-    this.isFaderVisible = !this.isFaderVisible;
+  @state() private rampTarget: number | null = null;
+  @state() private rampAmount = 16;
+  @state() private rampUnit: RampUnit = 'bars';
+  @state() private rampProgress: number | null = null;
+  @state() private rampPaused = false;
+
+  private readonly ramp = new BpmRamp(
+    (bpm, progress) => {
+      this.rampProgress = progress;
+      const rounded = Math.round(bpm * 10) / 10;
+      if (rounded === this.currentBpm) return;
+      this.currentBpm = rounded;
+      this.dispatchBpmChange();
+    },
+    (completed) => {
+      this.rampProgress = null;
+      this.rampPaused = false;
+      if (completed) {
+        this.dispatchEvent(
+          new CustomEvent('bpm-ramp-completed', { detail: { bpm: this.currentBpm }, bubbles: true, composed: true }),
+        );
+      }
+    },
+  );
+
+  override connectedCallback() {
+    super.connectedCallback();
+    document.addEventListener('keydown', this.handleGlobalKeyDown);
   }
 
-  private handleFaderInput(event: Event) {
-    const target = event.target as HTMLInputElement;
-    let newBpm = parseFloat(target.value);
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    document.removeEventListener('keydown', this.handleGlobalKeyDown);
+    this.ramp.cancel();
+  }
 
-    this.currentBpm = newBpm;
+  override updated(changedProperties: Map<string, unknown>) {
+    // Incoming clock owns the tempo; a running ramp would fight it.
+    if (changedProperties.has('externalClock') && this.externalClock) {
+      this.ramp.cancel();
+    }
+  }
+
+  /** Ramps linearly from the current BPM to `target` over a number of seconds or bars. */
+  public startRamp(target: number, amount: number, unit: RampUnit) {
+    if (this.externalClock) return;
+    const to = Math.max(this.minBpm, Math.min(this.maxBpm, target));
+    this.ramp.start(this.currentBpm, to, rampDurationSeconds(amount, unit, this.currentBpm, to));
+    this.rampPaused = false;
+  }
+
+  public toggleRampPause() {
+    if (this.ramp.isPaused) {
+      this.ramp.resume();
+    } else {
+      this.ramp.pause();
+    }
+    this.rampPaused = this.ramp.isPaused;
+  }
+
+  public cancelRamp() {
+    this.ramp.cancel();
+  }
+
+  /** Registers a tap; from the second tap on, sets the BPM from the average tap interval. */
+  public tap() {
+    if (this.externalClock) return;
+    const now = performance.now();
+    const lastTap = this.tapTimes[this.tapTimes.length - 1];
+    if (lastTap !== undefined && now - lastTap > TAP_RESET_MS) {
+      this.tapTimes = [];
+    }
+    this.tapTimes.push(now);
+    if (this.tapTimes.length > MAX_TAPS) this.tapTimes.shift();
+    if (this.tapTimes.length < 2) return;
+
+    const intervals = this.tapTimes.slice(1).map((time, i) => time - this.tapTimes[i]);
+    const sorted = [...intervals].sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)];
+    const kept = intervals.filter((interval) => Math.abs(interval - median) <= median * TAP_OUTLIER_RATIO);
+    const average = kept.reduce((sum, interval) => sum + interval, 0) / kept.length;
+    this.setBpm(60000 / average);
+  }
+
+  public nudge(delta: number) {
+    if (this.externalClock) return;
+    this.setBpm(this.currentBpm + delta);
+  }
+
+  private setBpm(bpm: number) {
+    this.ramp.cancel();
+    this.currentBpm = Math.round(Math.max(this.minBpm, Math.min(this.maxBpm, bpm)) * 10) / 10;
+    this.dispatchBpmChange();
+  }
+
+  private dispatchBpmChange() {
     this.dispatchEvent(
       new CustomEvent('bpm-changed', {
         detail: { bpm: this.currentBpm },
@@ -157,6 +356,105 @@ export class BpmController extends LitElement {
     );
   }
 
+  private handleGlobalKeyDown = (e: KeyboardEvent) => {
+    const target = e.composedPath()[0];
+    if (target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+      return;
+    }
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    if (e.code === 'KeyT') {
+      this.tap();
+    } else if (e.code === 'BracketLeft') {
+      this.nudge(e.shiftKey ? -COARSE_NUDGE : -FINE_NUDGE);
+    } else if (e.code === 'BracketRight') {
+      this.nudge(e.shiftKey ? COARSE_NUDGE : FINE_NUDGE);
+    }
+  };
+
+  private renderLearnBadge(targetId: string) {
+    return this.showMidi && this.midiLearn
+      ? html`<midi-learn-badge .registry=${this.midiLearn} .targetId=${targetId}></midi-learn-badge>`
+      : '';
+  }
+
+  private renderNudgeButton(label: string, delta: number, targetId: string) {
+    return html`
+      <div class="tool">
+        <button
+          @click=${() => this.nudge(delta)}
+          ?disabled=${this.externalClock}
+          title=${`Nudge BPM by ${delta > 0 ? '+' : ''}${delta}`}
+        >${label}</button>
+        ${this.renderLearnBadge(targetId)}
+      </div>`;
+  }
+
+  private toggleFader() {
+    this.isFaderVisible = !this.isFaderVisible;
+  }
+
+  private handleFaderInput(event: Event) {
+    const target = event.target as HTMLInputElement;
+    let newBpm = parseFloat(target.value);
+    this.ramp.cancel();
+
+    this.currentBpm = newBpm;
+    this.dispatchBpmChange();
+  }
+
+  private renderRamp() {
+    const ramping = this.rampProgress !== null;
+    return html`
+      <div class="ramp">
+        <div class="ramp-row">
+          Ramp to
+          <input
+            type="number"
+            min=${this.minBpm}
+            max=${this.maxBpm}
+            step="0.1"
+            .value=${String(this.rampTarget ?? this.currentBpm)}
+            @change=${(e: Event) => { this.rampTarget = Number((e.target as HTMLInputElement).value); }}
+            ?disabled=${ramping || this.externalClock}
+            aria-label="Ramp target BPM" />
+        </div>
+        <div class="ramp-row">
+          over
+          <input
+            type="number"
+            min="1"
+            step="1"
+            .value=${String(this.rampAmount)}
+            @change=${(e: Event) => { this.rampAmount = Math.max(1, Number((e.target as HTMLInputElement).value) || 1); }}
+            ?disabled=${ramping || this.externalClock}
+            aria-label="Ramp length" />
+          <select
+            .value=${this.rampUnit}
+            @change=${(e: Event) => { this.rampUnit = (e.target as HTMLSelectElement).value as RampUnit; }}
+            ?disabled=${ramping || this.externalClock}
+            aria-label="Ramp length unit">
+            <option value="bars" ?selected=${this.rampUnit === 'bars'}>bars</option>
+            <option value="seconds" ?selected=${this.rampUnit === 'seconds'}>sec</option>
+          </select>
+        </div>
+        ${ramping
+          ? html`
+            <div class="ramp-progress"><div style="width: ${Math.round(this.rampProgress! * 100)}%"></div></div>
+            <div class="ramp-row">
+              <button @click=${this.toggleRampPause}>${this.rampPaused ? 'Resume' : 'Pause'}</button>
+              <button @click=${this.cancelRamp}>Cancel</button>
+            </div>`
+          : html`
+            <div class="ramp-row">
+              <button
+                @click=${() => this.startRamp(this.rampTarget ?? this.currentBpm, this.rampAmount, this.rampUnit)}
+                ?disabled=${this.externalClock}
+              >Start ramp</button>
+            </div>`}
+      </div>
+    `;
+  }
+
   override render() {
     const faderWrapperClasses = {
       'fader-wrapper': true,
@@ -173,9 +471,26 @@ export class BpmController extends LitElement {
           aria-pressed=${this.isFaderVisible}
           aria-controls="bpm-fader"
         >
-          ${this.currentBpm.toFixed(1)}
+          ${this.currentBpm.toFixed(1)}${this.externalClock ? html`<span class="external-clock">EXT</span>` : ''}
         </button>
+        ${this.rampProgress !== null
+          ? html`<div class="ramp-progress" title="BPM ramp"><div style="width: ${Math.round(this.rampProgress * 100)}%"></div></div>`
+          : ''}
+        ${this.renderLearnBadge('bpm')}
         <div class=${classMap(faderWrapperClasses)}>
+          <div class="tempo-tools">
+            <div class="tool tap-button">
+              <button class="tap-button" @click=${this.tap} ?disabled=${this.externalClock} title="Tap tempo (T)">TAP</button>
+              ${this.renderLearnBadge('bpm.tap')}
+            </div>
+            <div class="nudge-row">
+              ${this.renderNudgeButton('«', -COARSE_NUDGE, 'bpm.nudge-down-coarse')}
+              ${this.renderNudgeButton('‹', -FINE_NUDGE, 'bpm.nudge-down')}
+              ${this.renderNudgeButton('›', FINE_NUDGE, 'bpm.nudge-up')}
+              ${this.renderNudgeButton('»', COARSE_NUDGE, 'bpm.nudge-up-coarse')}
+            </div>
+          </div>
+          ${this.renderRamp()}
           <input
             id="bpm-fader"
             type="range"
@@ -184,6 +499,7 @@ export class BpmController extends LitElement {
             max=${this.maxBpm}
             .value=${String(this.currentBpm)} 
             step="0.1"
+            ?disabled=${this.externalClock}
             @input=${this.handleFaderInput}
             aria-label="BPM Fader"
           />
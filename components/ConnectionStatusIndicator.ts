@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import type { ConnectionStatus } from '../types';
+
+/** Shows whether the music session is connected, and the reconnection progress when it isn't. */
+@customElement('connection-status')
+export class ConnectionStatusIndicator extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      align-items: center;
+      gap: 0.8vmin;
+      font-size: 1.6vmin;
+      color: var(--button-small-text-color, #CCCCCC);
+      white-space: nowrap;
+    }
+    .dot {
+      width: 1.2vmin;
+      height: 1.2vmin;
+      border-radius: 50%;
+      background: #888;
+    }
+    .dot.connected {
+      background: var(--theme-color-green, #00FF00);
+    }
+    .dot.reconnecting, .dot.connecting {
+      background: var(--theme-color-yellow, #FFFF00);
+      animation: blink 1s infinite;
+    }
+    .dot.failed {
+      background: #FF4040;
+    }
+    @keyframes blink {
+      50% { opacity: 0.3; }
+    }
+    button {
+      font: inherit;
+      padding: 0.3vmin 0.8vmin;
+      color: var(--button-small-text-color, #CCCCCC);
+      background: var(--button-small-bg-color, #282828);
+      border: 1.5px solid var(--button-small-border-color, #404040);
+      border-radius: 4px;
+      cursor: pointer;
+    }
+  `;
+
+  @property({ type: Object }) status: ConnectionStatus | null = null;
+
+  /** Re-renders the countdown every second while a retry is scheduled. */
+  @state() private now = Date.now();
+  private tickTimer: number | null = null;
+
+  override updated() {
+    const counting = this.status?.nextRetryAt != null;
+    if (counting && this.tickTimer === null) {
+      this.tickTimer = window.setInterval(() => { this.now = Date.now(); }, 1000);
+    } else if (!counting && this.tickTimer !== null) {
+      window.clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    if (this.tickTimer !== null) {
+      window.clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+  }
+
+  private describe(status: ConnectionStatus): string {
+    switch (status.state) {
+      case 'connecting':
+        return 'Connecting…';
+      case 'connected':
+        return 'Connected';
+      case 'failed':
+        return `Disconnected after ${status.attempt} attempts`;
+      case 'reconnecting': {
+        const attempt = `${status.attempt}/${status.maxAttempts}`;
+        if (status.nextRetryAt === null) return `Reconnecting (attempt ${attempt})…`;
+        const seconds = Math.max(0, Math.ceil((status.nextRetryAt - this.now) / 1000));
+        return `Connection lost, retrying in ${seconds}s (${attempt})`;
+      }
+    }
+  }
+
+  override render() {
+    if (!this.status) return '';
+    const { state } = this.status;
+    return html`
+      <span class=${classMap({ dot: true, [state]: true })}></span>
+      <span role="status">${this.describe(this.status)}</span>
+      ${state === 'failed' || (state === 'reconnecting' && this.status.nextRetryAt !== null)
+        ? html`<button @click=${() => this.dispatchEvent(new CustomEvent('connection-retry', { bubbles: true, composed: true }))}>Retry now</button>`
+        : ''}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'connection-status': ConnectionStatusIndicator;
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import type { CrossfaderCurve, Deck } from '../utils/crossfader';
+import type { MidiLearnRegistry } from '../utils/MidiLearnRegistry';
+import './MidiLearnBadge';
+
+/** A horizontal DJ crossfader between prompt decks A and B, with deck select buttons. */
+@customElement('crossfader-control')
+export class Crossfader extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      align-items: center;
+      gap: 1vmin;
+      color: var(--button-small-text-color, #CCCCCC);
+      font-size: 1.6vmin;
+    }
+    .deck-button {
+      font-family: 'Audiowide', 'Google Sans', sans-serif;
+      font-size: 1.8vmin;
+      width: 4vmin;
+      min-width: 28px;
+      padding: 0.4vmin 0;
+      color: inherit;
+      background: var(--button-small-bg-color, #282828);
+      border: 1.5px solid var(--button-small-border-color, #404040);
+      border-radius: 4px;
+      cursor: pointer;
+    }
+    .deck-button.editing {
+      color: #000;
+      background: var(--theme-color-cyan, #00FFFF);
+      border-color: var(--theme-color-cyan, #00FFFF);
+    }
+    .fader {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+    }
+    input[type='range'] {
+      width: 18vmin;
+      min-width: 100px;
+      accent-color: var(--theme-color-magenta, #FF00FF);
+      cursor: pointer;
+    }
+    select {
+      font: inherit;
+      background: #1c1c1c;
+      color: inherit;
+      border: 1px solid var(--button-small-border-color, #404040);
+      border-radius: 3px;
+    }
+  `;
+
+  @property({ type: Number }) position = 0;
+  @property({ type: String }) curve: CrossfaderCurve = 'constant-power';
+  @property({ type: String }) editingDeck: Deck = 'A';
+  @property({ type: Object }) midiLearn: MidiLearnRegistry | null = null;
+  @property({ type: Boolean }) showMidi = false;
+
+  private dispatch<T>(type: string, detail: T) {
+    this.dispatchEvent(new CustomEvent<T>(type, { detail, bubbles: true, composed: true }));
+  }
+
+  private renderDeckButton(deck: Deck) {
+    return html`<button
+      class=${classMap({ 'deck-button': true, editing: this.editingDeck === deck })}
+      title=${`Show and edit deck ${deck}`}
+      @click=${() => this.dispatch<Deck>('deck-selected', deck)}
+    >${deck}</button>`;
+  }
+
+  override render() {
+    return html`
+      ${this.renderDeckButton('A')}
+      <div class="fader">
+        <input
+          type="range"
+          min="0"
+          max="1"
+          step="0.01"
+          .value=${String(this.position)}
+          @input=${(e: Event) => this.dispatch<number>('crossfader-changed', Number((e.target as HTMLInputElement).value))}
+          aria-label="Crossfader" />
+        ${this.showMidi && this.midiLearn
+          ? html`<midi-learn-badge .registry=${this.midiLearn} targetId="crossfader"></midi-learn-badge>`
+          : ''}
+      </div>
+      ${this.renderDeckButton('B')}
+      <select
+        .value=${this.curve}
+        @change=${(e: Event) => this.dispatch<CrossfaderCurve>('crossfader-curve-changed', (e.target as HTMLSelectElement).value as CrossfaderCurve)}
+        aria-label="Crossfader curve">
+        <option value="linear" ?selected=${this.curve === 'linear'}>Linear</option>
+        <option value="constant-power" ?selected=${this.curve === 'constant-power'}>Power</option>
+        <option value="cut" ?selected=${this.curve === 'cut'}>Cut</option>
+      </select>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'crossfader-control': Crossfader;
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import type { UndoHistory } from '../utils/UndoHistory';
+
+/** Undo/redo buttons with a dropdown list of history steps to jump to. */
+@customElement('history-panel')
+export class HistoryPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      position: relative;
+      gap: 0.5vmin;
+    }
+    button {
+      font: inherit;
+      font-size: 1.8vmin;
+      padding: 0.8vmin 1vmin;
+      color: var(--button-small-text-color, #CCCCCC);
+      background: var(--button-small-bg-color, #282828);
+      border: 1.5px solid var(--button-small-border-color, #404040);
+      border-radius: 4px;
+      cursor: pointer;
+      user-select: none;
+      white-space: nowrap;
+    }
+    button:hover:not(:disabled) {
+      background-color: var(--button-small-bg-color-hover, #383838);
+      border-color: var(--button-small-border-color-hover, #505050);
+    }
+    button:disabled {
+      opacity: 0.4;
+      cursor: default;
+    }
+    .dropdown {
+      position: absolute;
+      top: calc(100% + 8px);
+      left: 0;
+      z-index: 10;
+      min-width: 220px;
+      max-height: 60vh;
+      overflow-y: auto;
+      padding: 0.5vmin 0;
+      background-color: var(--button-small-bg-color, #282828);
+      border: 1.5px solid var(--button-small-border-color, #404040);
+      border-radius: 6px;
+      box-shadow: 0 4px 8px rgba(0,0,0,0.2);
+      color: var(--button-small-text-color, #CCCCCC);
+      font-size: 1.6vmin;
+    }
+    .dropdown.hidden {
+      display: none;
+    }
+    .entry {
+      padding: 0.4vmin 1.5vmin;
+      cursor: pointer;
+      white-space: nowrap;
+    }
+    .entry:hover {
+      background: #383838;
+    }
+    .entry.current {
+      color: var(--theme-color-cyan, #00FFFF);
+    }
+    .entry.undone {
+      opacity: 0.5;
+    }
+  `;
+
+  @property({ type: Object }) history: UndoHistory<unknown> | null = null;
+
+  @state() private isOpen = false;
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.history?.addEventListener('history-changed', this.handleHistoryChanged);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.history?.removeEventListener('history-changed', this.handleHistoryChanged);
+  }
+
+  private handleHistoryChanged = () => {
+    this.requestUpdate();
+  };
+
+  private dispatch(type: string, detail?: number) {
+    this.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }));
+  }
+
+  override render() {
+    const entries = this.history?.getEntries() ?? [];
+    const current = this.history?.currentIndex ?? -1;
+    return html`
+      <button @click=${() => this.dispatch('history-undo')} ?disabled=${!this.history?.canUndo} title="Undo (Ctrl+Z)">↶</button>
+      <button @click=${() => this.dispatch('history-redo')} ?disabled=${!this.history?.canRedo} title="Redo (Ctrl+Shift+Z)">↷</button>
+      <button @click=${() => { this.isOpen = !this.isOpen; }} aria-expanded=${this.isOpen} title="History">History</button>
+      <div class=${classMap({ dropdown: true, hidden: !this.isOpen })}>
+        ${entries.map((entry, i) => ({ entry, i })).reverse().map(({ entry, i }) => html`
+          <div
+            class=${classMap({ entry: true, current: i === current, undone: i > current })}
+            @click=${() => this.dispatch('history-jump', i)}
+          >${entry.label}</div>`)}
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'history-panel': HistoryPanel;
+  }
+}
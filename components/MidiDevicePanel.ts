@@ -0,0 +1,332 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+import type { MidiFeedback } from '../utils/MidiFeedback';
+import { exportMappingProfile } from '../utils/mappingProfiles';
+import type { MappingProfile } from '../types';
+
+/** A dropdown panel for enabling MIDI input devices, picking the feedback output and managing mapping profiles. */
+@customElement('midi-device-panel')
+export class MidiDevicePanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      position: relative;
+    }
+    .panel-button {
+      font: inherit;
+      font-size: 1.8vmin;
+      padding: 0.8vmin 1vmin;
+      color: var(--button-small-text-color, #CCCCCC);
+      background: var(--button-small-bg-color, #282828);
+      border: 1.5px solid var(--button-small-border-color, #404040);
+      border-radius: 4px;
+      cursor: pointer;
+      user-select: none;
+      white-space: nowrap;
+    }
+    .panel-button:hover {
+      background-color: var(--button-small-bg-color-hover, #383838);
+      border-color: var(--button-small-border-color-hover, #505050);
+    }
+    .dropdown {
+      position: absolute;
+      top: calc(100% + 8px);
+      left: 0;
+      z-index: 10;
+      min-width: 220px;
+      max-height: 60vh;
+      overflow-y: auto;
+      padding: 1vmin 1.5vmin;
+      background-color: var(--button-small-bg-color, #282828);
+      border: 1.5px solid var(--button-small-border-color, #404040);
+      border-radius: 6px;
+      box-shadow: 0 4px 8px rgba(0,0,0,0.2);
+      color: var(--button-small-text-color, #CCCCCC);
+      font-size: 1.6vmin;
+    }
+    .dropdown.hidden {
+      display: none;
+    }
+    .section-title {
+      font-weight: bold;
+      margin: 0.5vmin 0;
+    }
+    label {
+      display: flex;
+      align-items: center;
+      gap: 0.8vmin;
+      padding: 0.4vmin 0;
+      cursor: pointer;
+      white-space: nowrap;
+    }
+    .led-row {
+      display: flex;
+      align-items: center;
+      gap: 0.8vmin;
+      padding: 0.4vmin 0;
+    }
+    .led-row input {
+      width: 5em;
+      font: inherit;
+    }
+    .profile-row {
+      display: flex;
+      align-items: center;
+      gap: 0.8vmin;
+      padding: 0.4vmin 0;
+    }
+    .profile-row select {
+      flex: 1;
+      font: inherit;
+    }
+    .profile-row button {
+      font: inherit;
+      cursor: pointer;
+    }
+    .profile-device {
+      font-size: 1.4vmin;
+      color: #888;
+    }
+    .empty {
+      font-style: italic;
+      color: #888;
+    }
+    hr {
+      border: none;
+      border-top: 1px solid var(--button-small-border-color, #404040);
+      margin: 1vmin 0;
+    }
+  `;
+
+  @property({ type: Object }) midiDispatcher: MidiDispatcher | null = null;
+  @property({ type: Array }) inputIds: string[] = [];
+  @property({ type: Array }) activeInputIds: string[] = [];
+  @property({ type: Array }) outputIds: string[] = [];
+  @property({ type: String }) activeOutputId: string | null = null;
+  @property({ type: Object }) midiFeedback: MidiFeedback | null = null;
+  @property({ type: Array }) mappingProfiles: MappingProfile[] = [];
+  @property({ type: String }) activeProfileName: string | null = null;
+  @property({ type: Boolean }) followClock = false;
+  @property({ type: String }) clockOutputId: string | null = null;
+
+  @state() private isOpen = false;
+
+  private toggleOpen() {
+    this.isOpen = !this.isOpen;
+  }
+
+  private handleInputToggle(id: string, e: Event) {
+    const active = (e.target as HTMLInputElement).checked;
+    this.midiDispatcher?.setInputActive(id, active);
+    this.dispatchEvent(
+      new CustomEvent<string[]>('midi-inputs-changed', {
+        detail: Array.from(this.midiDispatcher?.activeMidiInputIds ?? []),
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  private handleOutputSelect(id: string | null) {
+    this.midiDispatcher?.setActiveOutput(id);
+    this.dispatchOutputChange();
+  }
+
+  private handleTransportLedInput(e: Event) {
+    if (!this.midiFeedback) return;
+    const value = (e.target as HTMLInputElement).value;
+    const note = Number(value);
+    this.midiFeedback.transportLed = value === '' || !Number.isInteger(note) || note < 0 || note > 127
+      ? null
+      : { channel: 0, note };
+    this.dispatchOutputChange();
+  }
+
+  private dispatchOutputChange() {
+    this.dispatchEvent(
+      new CustomEvent<string | null>('midi-output-changed', {
+        detail: this.midiDispatcher?.activeMidiOutputId ?? null,
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  private handleLockLearnToggle(e: Event) {
+    if (!this.midiDispatcher) return;
+    this.midiDispatcher.lockLearnToDevice = (e.target as HTMLInputElement).checked;
+    this.requestUpdate();
+  }
+
+  private handleFollowClockToggle(e: Event) {
+    this.dispatchEvent(
+      new CustomEvent<boolean>('midi-clock-follow-changed', {
+        detail: (e.target as HTMLInputElement).checked,
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  private handleClockOutputSelect(e: Event) {
+    const id = (e.target as HTMLSelectElement).value;
+    this.dispatchEvent(
+      new CustomEvent<string | null>('midi-clock-output-changed', {
+        detail: id === '' ? null : id,
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  private dispatchProfileEvent(type: string, detail: string | null) {
+    this.dispatchEvent(new CustomEvent<string | null>(type, { detail, bubbles: true, composed: true }));
+  }
+
+  private handleProfileSelect(e: Event) {
+    const name = (e.target as HTMLSelectElement).value;
+    this.dispatchProfileEvent('mapping-profile-selected', name === '' ? null : name);
+  }
+
+  private handleProfileSave() {
+    const name = window.prompt('Save current MIDI mapping as:', this.activeProfileName ?? '')?.trim();
+    if (!name) return;
+    this.dispatchProfileEvent('mapping-profile-saved', name);
+  }
+
+  private handleProfileDelete() {
+    if (!this.activeProfileName || !window.confirm(`Delete mapping profile "${this.activeProfileName}"?`)) return;
+    this.dispatchProfileEvent('mapping-profile-deleted', this.activeProfileName);
+  }
+
+  private handleProfileExport() {
+    const profile = this.mappingProfiles.find((p) => p.name === this.activeProfileName);
+    if (profile) exportMappingProfile(profile);
+  }
+
+  private async handleProfileImport(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+    this.dispatchProfileEvent('mapping-profile-imported', await file.text());
+  }
+
+  override render() {
+    const activeCount = this.inputIds.filter((id) => this.activeInputIds.includes(id)).length;
+    return html`
+      <button
+        class="panel-button"
+        @click=${this.toggleOpen}
+        aria-expanded=${this.isOpen}
+        aria-label="Select MIDI Input Devices"
+      >
+        ${this.inputIds.length > 0 ? `Devices ${activeCount}/${this.inputIds.length}` : 'No MIDI devices'}
+      </button>
+      <div class=${classMap({ dropdown: true, hidden: !this.isOpen })}>
+        <div class="section-title">Inputs</div>
+        ${this.inputIds.length > 0
+          ? this.inputIds.map(
+            (id) => html`
+              <label>
+                <input
+                  type="checkbox"
+                  .checked=${this.activeInputIds.includes(id)}
+                  @change=${(e: Event) => this.handleInputToggle(id, e)} />
+                ${this.midiDispatcher?.getDeviceName(id) ?? id}
+              </label>`,
+          )
+          : html`<div class="empty">No MIDI devices found</div>`}
+        <hr />
+        <label title="Controls learned while this is on only respond to the device they were learned from">
+          <input
+            type="checkbox"
+            .checked=${this.midiDispatcher?.lockLearnToDevice ?? false}
+            @change=${this.handleLockLearnToggle} />
+          Bind learned controls to their device
+        </label>
+        <hr />
+        <div class="section-title">Sync</div>
+        <label title="Take tempo and start/stop from MIDI clock sent by a drum machine or DAW">
+          <input
+            type="checkbox"
+            .checked=${this.followClock}
+            @change=${this.handleFollowClockToggle} />
+          Follow external clock
+        </label>
+        <div class="profile-row" title="Send MIDI clock and start/stop at the app's BPM">
+          Send clock to
+          <select .value=${this.clockOutputId ?? ''} @change=${this.handleClockOutputSelect}>
+            <option value="" ?selected=${this.clockOutputId === null}>None</option>
+            ${this.outputIds.map(
+              (id) => html`<option value=${id} ?selected=${id === this.clockOutputId}>${this.midiDispatcher?.getDeviceName(id) ?? id}</option>`,
+            )}
+          </select>
+        </div>
+        <hr />
+        <div class="section-title">Mapping profile</div>
+        <div class="profile-row">
+          <select .value=${this.activeProfileName ?? ''} @change=${this.handleProfileSelect}>
+            <option value="" ?selected=${this.activeProfileName === null}>Custom</option>
+            ${this.mappingProfiles.map(
+              (profile) => html`<option value=${profile.name} ?selected=${profile.name === this.activeProfileName}>${profile.name}</option>`,
+            )}
+          </select>
+        </div>
+        ${this.mappingProfiles
+          .filter((profile) => profile.name === this.activeProfileName && profile.deviceName)
+          .map((profile) => html`<div class="profile-device">Auto-selected for ${profile.deviceName}</div>`)}
+        <div class="profile-row">
+          <button @click=${this.handleProfileSave}>Save…</button>
+          <button @click=${this.handleProfileExport} ?disabled=${this.activeProfileName === null}>Export</button>
+          <button @click=${() => this.shadowRoot?.querySelector<HTMLInputElement>('#profile-file')?.click()}>Import…</button>
+          <button @click=${this.handleProfileDelete} ?disabled=${this.activeProfileName === null}>Delete</button>
+          <input id="profile-file" type="file" accept=".json,application/json" hidden @change=${this.handleProfileImport} />
+        </div>
+        <hr />
+        <div class="section-title">Feedback output</div>
+        <label>
+          <input
+            type="radio"
+            name="midi-output"
+            .checked=${this.activeOutputId === null}
+            @change=${() => this.handleOutputSelect(null)} />
+          None
+        </label>
+        ${this.outputIds.map(
+          (id) => html`
+            <label>
+              <input
+                type="radio"
+                name="midi-output"
+                .checked=${this.activeOutputId === id}
+                @change=${() => this.handleOutputSelect(id)} />
+              ${this.midiDispatcher?.getDeviceName(id) ?? id}
+            </label>`,
+        )}
+        <div class="led-row" title="Note on channel 1 that lights up while playing">
+          Play LED note
+          <input
+            type="number"
+            min="0"
+            max="127"
+            placeholder="Off"
+            .value=${this.midiFeedback?.transportLed ? String(this.midiFeedback.transportLed.note) : ''}
+            @change=${this.handleTransportLedInput} />
+        </div>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'midi-device-panel': MidiDevicePanel;
+  }
+}
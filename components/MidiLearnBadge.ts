@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import type { MidiLearnRegistry } from '../utils/MidiLearnRegistry';
+
+/** Shows the MIDI binding of a learnable control; click to learn, right-click to clear. */
+@customElement('midi-learn-badge')
+export class MidiLearnBadge extends LitElement {
+  static override styles = css`
+    :host {
+      display: inline-block;
+    }
+    .badge {
+      font-family: monospace;
+      font-size: clamp(1vmin, 2vw, 1.4vmin);
+      font-weight: normal;
+      border: 0.15vmin solid #fff;
+      border-radius: 0.5vmin;
+      padding: 0 4px;
+      color: #fff;
+      background: #0006;
+      cursor: pointer;
+      user-select: none;
+      white-space: nowrap;
+    }
+    .badge.learning {
+      color: #FF00FF;
+      border-color: #FF00FF;
+    }
+    .badge.unbound {
+      opacity: 0.6;
+    }
+  `;
+
+  @property({ type: Object }) registry: MidiLearnRegistry | null = null;
+  @property({ type: String }) targetId = '';
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.registry?.addEventListener('bindings-changed', this.handleBindingsChanged);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.registry?.removeEventListener('bindings-changed', this.handleBindingsChanged);
+  }
+
+  private handleBindingsChanged = () => {
+    this.requestUpdate();
+  };
+
+  private handleClick(e: Event) {
+    e.stopPropagation();
+    e.preventDefault();
+    this.registry?.toggleLearn(this.targetId);
+  }
+
+  private handleContextMenu(e: Event) {
+    e.preventDefault();
+    this.registry?.clearBinding(this.targetId);
+  }
+
+  override render() {
+    const learning = this.registry?.learningTargetId === this.targetId;
+    const binding = this.registry?.getBinding(this.targetId);
+    const label = learning ? 'Learn'
+      : binding ? `CH${binding.channel + 1} ${binding.type === 'cc' ? 'CC' : 'N'}:${binding.number}`
+      : 'MIDI';
+    return html`<span
+      class=${classMap({ badge: true, learning, unbound: !binding && !learning })}
+      title="Click to MIDI-learn, right-click to clear"
+      @click=${this.handleClick}
+      @contextmenu=${this.handleContextMenu}
+    >${label}</span>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'midi-learn-badge': MidiLearnBadge;
+  }
+}
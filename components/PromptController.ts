@@ -9,11 +9,15 @@ import { GoogleGenAI } from '@google/genai';
 
 import type { WeightKnob } from './WeightKnob';
 import type { MidiDispatcher } from '../utils/MidiDispatcher';
-import type { Prompt, ControlChange } from '../types';
+import { applyTakeover, type TakeoverState } from '../utils/softTakeover';
+import { DEFAULT_ENCODER_CONFIG, encoderWeightDelta } from '../utils/relativeEncoder';
+import { clampWeight } from './WeightKnob';
+import type { Prompt, ControlChange, HighResControlChange, HighResKind, TakeoverMode, EncoderConfig, EncoderMode } from '../types';
 
 // Assume ai is initialized globally or passed in if needed for other models.
 // For this component, we'll use a local instance for suggestions.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Without an API key there is no client and suggestions are turned off.
+const ai = process.env.API_KEY ? new GoogleGenAI({ apiKey: process.env.API_KEY }) : null;
 const SUGGESTION_MODEL = 'gemini-2.5-flash-preview-04-17';
 const ON_WEIGHT_TOGGLE = 0.7; // Ensure consistency if this value changes in index.tsx
 
@@ -57,6 +61,50 @@ export class PromptController extends LitElement {
       .show-cc & {
         visibility: visible;
       }
+      &.offline {
+        opacity: 0.5;
+        text-decoration: line-through;
+      }
+    }
+    #mapping-mode {
+      font-family: monospace;
+      font-size: clamp(1vmin, 2vw, 1.4vmin);
+      color: #ccc;
+      cursor: pointer;
+      visibility: hidden;
+      user-select: none;
+      .show-cc & {
+        visibility: visible;
+      }
+    }
+    .mapping-options {
+      position: absolute;
+      top: 100%;
+      left: 50%;
+      transform: translateX(-50%);
+      z-index: 100;
+      display: flex;
+      flex-direction: column;
+      gap: 0.6vmin;
+      min-width: 160px;
+      padding: 8px 10px;
+      background-color: var(--button-small-bg-color, #282828);
+      border: 1px solid var(--button-small-border-color, #404040);
+      border-radius: 4px;
+      box-shadow: 0 4px 6px rgba(0,0,0,0.2);
+      color: var(--button-small-text-color, #CCCCCC);
+      font-size: clamp(1.2vmin, 2.4vw, 1.6vmin);
+    }
+    .mapping-options[hidden] {
+      display: none;
+    }
+    .mapping-options label {
+      display: flex;
+      flex-direction: column;
+      gap: 2px;
+    }
+    .mapping-options select {
+      font: inherit;
     }
     #text {
       font-family: 'Google Sans', sans-serif;
@@ -138,6 +186,11 @@ export class PromptController extends LitElement {
 
   @property({ type: Number }) cc = 0;
   @property({ type: Number }) channel = 0; 
+  @property({ attribute: false }) deviceId: string | null = null;
+  @property({ type: Boolean }) deviceOnline = true;
+  @property({ type: String }) takeover: TakeoverMode = 'jump';
+  @property({ type: Object }) encoder: EncoderConfig = DEFAULT_ENCODER_CONFIG;
+  @property({ attribute: false }) hiRes: HighResKind | undefined = undefined;
 
   @property({ type: Boolean }) learnMode = false;
   @property({ type: Boolean }) showCC = false;
@@ -157,12 +210,20 @@ export class PromptController extends LitElement {
   @state() private suggestions: string[] = [];
   @state() private isLoadingSuggestions = false;
   @state() private showSuggestions = false;
+  @state() private showMappingOptions = false;
+  @state() private learnHighRes = false;
+  private takeoverState: TakeoverState = { hardwareValue: null, engaged: false };
+  /** The weight last set from hardware, to tell it apart from on-screen or preset changes. */
+  private lastMidiWeight: number | null = null;
+  private lastEncoderTickTime = 0;
   private debounceTimer: number | undefined;
   private lastValidText!: string;
 
   override connectedCallback() {
     super.connectedCallback();
     this.midiDispatcher?.addEventListener('cc-message', this.handleMidiMessage);
+    this.midiDispatcher?.addEventListener('hires-message', this.handleHighResMessage);
+    this.learnHighRes = this.hiRes !== undefined;
     document.addEventListener('keydown', this.handleGlobalKeyDown);
     // Click outside is handled by blur for simplicity here
   }
@@ -170,28 +231,73 @@ export class PromptController extends LitElement {
   override disconnectedCallback() {
     super.disconnectedCallback();
     this.midiDispatcher?.removeEventListener('cc-message', this.handleMidiMessage);
+    this.midiDispatcher?.removeEventListener('hires-message', this.handleHighResMessage);
     document.removeEventListener('keydown', this.handleGlobalKeyDown);
     if (this.debounceTimer) clearTimeout(this.debounceTimer);
   }
 
   private handleMidiMessage = (e: Event) => { // Made into arrow function
     const customEvent = e as CustomEvent<ControlChange>;
-    const { channel, cc, value } = customEvent.detail;
+    const { channel, cc, value, deviceId } = customEvent.detail;
     if (this.learnMode) {
+      // In 14-bit learn the paired or (N)RPN message that follows is learned instead.
+      if (this.learnHighRes) return;
       this.cc = cc;
       this.channel = channel;
+      this.hiRes = undefined;
+      this.deviceId = this.midiDispatcher?.lockLearnToDevice ? deviceId : null;
       this.learnMode = false;
       this.dispatchPromptChange();
-    } else if (cc === this.cc) {
-      this.weight = (value / 127) * 2;
+    } else if (this.hiRes === undefined && cc === this.cc && this.matchesSource(channel, deviceId)) {
+      const weight = this.encoder.mode === 'absolute'
+        ? applyTakeover(this.takeover, this.weight, (value / 127) * 2, this.takeoverState)
+        : this.applyEncoderTick(value);
+      this.setWeightFromMidi(weight);
+    }
+  };
+
+  private handleHighResMessage = (e: Event) => {
+    const { kind, number, value, channel, deviceId } = (e as CustomEvent<HighResControlChange>).detail;
+    if (this.learnMode) {
+      if (!this.learnHighRes) return;
+      this.cc = number;
+      this.channel = channel;
+      this.hiRes = kind;
+      this.deviceId = this.midiDispatcher?.lockLearnToDevice ? deviceId : null;
+      this.learnMode = false;
       this.dispatchPromptChange();
+    } else if (this.hiRes === kind && number === this.cc && this.matchesSource(channel, deviceId)) {
+      this.setWeightFromMidi(applyTakeover(this.takeover, this.weight, (value / 16383) * 2, this.takeoverState));
     }
   };
 
+  private matchesSource(channel: number, deviceId: string) {
+    return channel === this.channel && (this.deviceId === null || deviceId === this.deviceId);
+  }
+
+  private setWeightFromMidi(weight: number) {
+    this.requestUpdate();
+    if (weight !== this.weight) {
+      this.weight = weight;
+      this.lastMidiWeight = weight;
+      this.dispatchPromptChange();
+    }
+  }
+
+  private applyEncoderTick(value: number): number {
+    const now = performance.now();
+    const delta = encoderWeightDelta(this.encoder, value, now - this.lastEncoderTickTime);
+    this.lastEncoderTickTime = now;
+    return clampWeight(this.weight + delta);
+  }
+
   private handleGlobalKeyDown = (e: KeyboardEvent) => {
     if (e.key === 'Escape' && this.showSuggestions) {
       this.showSuggestions = false;
     }
+    if (e.key === 'Escape' && this.showMappingOptions) {
+      this.showMappingOptions = false;
+    }
   };
 
   override firstUpdated() {
@@ -202,6 +308,11 @@ export class PromptController extends LitElement {
   update(changedProperties: Map<string, unknown>) {
     if (changedProperties.has('showCC') && !this.showCC) {
       this.learnMode = false;
+      this.showMappingOptions = false;
+    }
+    // The weight moved without the hardware knob, which has to be picked up again.
+    if (changedProperties.has('weight') && this.weight !== this.lastMidiWeight) {
+      this.takeoverState.engaged = false;
     }
     if (changedProperties.has('text') && this.textInput) {
       if (this.textInput.textContent !== this.text) { 
@@ -221,6 +332,11 @@ export class PromptController extends LitElement {
           text: this.text,
           weight: this.weight,
           cc: this.cc,
+          channel: this.channel,
+          deviceId: this.deviceId,
+          takeover: this.takeover,
+          encoder: this.encoder,
+          hiRes: this.hiRes,
           color: this.color,
           categoryKey: this.categoryKey,
           sourceType: this.sourceType,
@@ -284,7 +400,7 @@ export class PromptController extends LitElement {
 
     clearTimeout(this.debounceTimer);
 
-    if (inputText.trim().length < 2) {
+    if (!ai || inputText.trim().length < 2) {
       this.showSuggestions = false;
       this.suggestions = [];
       this.isLoadingSuggestions = false;
@@ -307,7 +423,7 @@ export class PromptController extends LitElement {
   }
 
   private async fetchSuggestions(currentInputValue: string) {
-    if (this.filtered) {
+    if (!ai || this.filtered) {
         this.isLoadingSuggestions = false;
         this.showSuggestions = false;
         return;
@@ -400,6 +516,48 @@ Return your response STRICTLY as a JSON array of strings. For example: ["deep ro
     this.learnMode = !this.learnMode;
   }
 
+  private toggleMappingOptions() {
+    this.showMappingOptions = !this.showMappingOptions;
+  }
+
+  private handleTakeoverChange(e: Event) {
+    this.takeover = (e.target as HTMLSelectElement).value as TakeoverMode;
+    this.takeoverState.engaged = false;
+    this.dispatchPromptChange();
+  }
+
+  private handleEncoderChange(e: Event) {
+    const target = e.target as HTMLInputElement | HTMLSelectElement;
+    const encoder = { ...this.encoder };
+    if (target.name === 'mode') {
+      encoder.mode = target.value as EncoderMode;
+    } else if (target.name === 'sensitivity' || target.name === 'acceleration') {
+      encoder[target.name] = Number(target.value);
+    }
+    this.encoder = encoder;
+    this.dispatchPromptChange();
+  }
+
+  private handleLearnHighResChange(e: Event) {
+    this.learnHighRes = (e.target as HTMLInputElement).checked;
+  }
+
+  private renderMappingLabel() {
+    const prefix = { cc14: 'CC14', nrpn: 'NRPN', rpn: 'RPN' };
+    return `CH${this.channel + 1} ${this.hiRes ? prefix[this.hiRes] : 'CC'}:${this.cc}`;
+  }
+
+  private renderMappingMode() {
+    if (this.encoder.mode === 'absolute') return this.takeover.toUpperCase();
+    const labels: Record<EncoderMode, string> = {
+      'absolute': 'ABS',
+      'twos-complement': 'ENC 2C',
+      'binary-offset': 'ENC BIN',
+      'sign-magnitude': 'ENC SGN',
+    };
+    return labels[this.encoder.mode];
+  }
+
   override render() {
     const promptDivClasses = classMap({
       'prompt': true,
@@ -414,6 +572,7 @@ Return your response STRICTLY as a JSON array of strings. For example: ["deep ro
         .value=${this.weight}
         .color=${this.color}
         .audioLevel=${this.audioLevel}
+        .hardwareValue=${this.encoder.mode !== 'absolute' || this.takeover === 'jump' || this.takeoverState.engaged ? null : this.takeoverState.hardwareValue}
         @input=${this.updateWeight}></weight-knob>
       <div
         id="text"
@@ -432,8 +591,66 @@ Return your response STRICTLY as a JSON array of strings. For example: ["deep ro
           }
         }}
         >${this.text}</div>
-      <div id="midi" @click=${this.toggleLearnMode}>
-        ${this.learnMode ? 'Learn' : `CC:${this.cc}`}
+      <div
+        id="midi"
+        class=${classMap({ offline: !this.deviceOnline })}
+        title=${this.deviceId ? `Bound to ${this.midiDispatcher?.getDeviceName(this.deviceId) ?? this.deviceId}` : 'Any device'}
+        @click=${this.toggleLearnMode}>
+        ${this.learnMode ? (this.learnHighRes ? 'Learn 14-bit' : 'Learn') : this.renderMappingLabel()}
+      </div>
+      <div id="mapping-mode" title="Mapping options" @click=${this.toggleMappingOptions}>
+        ${this.renderMappingMode()}
+      </div>
+
+      <div class="mapping-options" ?hidden=${!this.showMappingOptions || !this.showCC}>
+        <label title="Learn a 14-bit CC pair (0-31 with 32-63) or an NRPN/RPN instead of a single CC">
+          <span>
+            <input type="checkbox" .checked=${this.learnHighRes} @change=${this.handleLearnHighResChange} />
+            Learn as 14-bit / NRPN
+          </span>
+        </label>
+        <label>
+          Encoder
+          <select name="mode" .value=${this.encoder.mode} @change=${this.handleEncoderChange}>
+            <option value="absolute">Absolute</option>
+            <option value="twos-complement">Relative (two's complement)</option>
+            <option value="binary-offset">Relative (binary offset)</option>
+            <option value="sign-magnitude">Relative (sign magnitude)</option>
+          </select>
+        </label>
+        ${this.encoder.mode === 'absolute' ? html`
+          <label>
+            Takeover
+            <select .value=${this.takeover} @change=${this.handleTakeoverChange}>
+              <option value="jump">Jump</option>
+              <option value="pickup">Pickup</option>
+              <option value="scale">Value scaling</option>
+            </select>
+          </label>
+        ` : html`
+          <label>
+            Sensitivity ${this.encoder.sensitivity.toFixed(3)}
+            <input
+              type="range"
+              name="sensitivity"
+              min="0.002"
+              max="0.05"
+              step="0.001"
+              .value=${String(this.encoder.sensitivity)}
+              @change=${this.handleEncoderChange} />
+          </label>
+          <label>
+            Acceleration ${this.encoder.acceleration.toFixed(2)}
+            <input
+              type="range"
+              name="acceleration"
+              min="0"
+              max="1"
+              step="0.05"
+              .value=${String(this.encoder.acceleration)}
+              @change=${this.handleEncoderChange} />
+          </label>
+        `}
       </div>
 
       <div class="suggestions-container" ?hidden=${!this.showSuggestions || this.filtered}>
@@ -0,0 +1,217 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import type { Scene, SceneTrigger } from '../types';
+import type { RampUnit } from '../utils/bpmRamp';
+
+/** A dropdown panel listing the scene bank, for saving, recalling and MIDI-learning scenes. */
+@customElement('scene-panel')
+export class ScenePanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      position: relative;
+    }
+    .panel-button {
+      font: inherit;
+      font-size: 1.8vmin;
+      padding: 0.8vmin 1vmin;
+      color: var(--button-small-text-color, #CCCCCC);
+      background: var(--button-small-bg-color, #282828);
+      border: 1.5px solid var(--button-small-border-color, #404040);
+      border-radius: 4px;
+      cursor: pointer;
+      user-select: none;
+      white-space: nowrap;
+    }
+    .panel-button:hover {
+      background-color: var(--button-small-bg-color-hover, #383838);
+      border-color: var(--button-small-border-color-hover, #505050);
+    }
+    .dropdown {
+      position: absolute;
+      top: calc(100% + 8px);
+      left: 0;
+      z-index: 10;
+      min-width: 260px;
+      max-height: 60vh;
+      overflow-y: auto;
+      padding: 1vmin 1.5vmin;
+      background-color: var(--button-small-bg-color, #282828);
+      border: 1.5px solid var(--button-small-border-color, #404040);
+      border-radius: 6px;
+      box-shadow: 0 4px 8px rgba(0,0,0,0.2);
+      color: var(--button-small-text-color, #CCCCCC);
+      font-size: 1.6vmin;
+    }
+    .dropdown.hidden {
+      display: none;
+    }
+    .scene {
+      display: flex;
+      align-items: center;
+      gap: 0.8vmin;
+      padding: 0.4vmin 0;
+    }
+    .scene-name {
+      flex: 1;
+      cursor: pointer;
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+    .scene-name:hover {
+      color: #fff;
+    }
+    .scene.active .scene-name {
+      color: var(--theme-color-cyan, #00FFFF);
+    }
+    button {
+      font: inherit;
+      cursor: pointer;
+    }
+    .trigger {
+      font-family: monospace;
+      font-size: 1.4vmin;
+      min-width: 6em;
+    }
+    .trigger.learning {
+      color: #FF00FF;
+    }
+    .morph-row {
+      display: flex;
+      align-items: center;
+      gap: 0.8vmin;
+      padding: 0.4vmin 0;
+    }
+    .morph-row input,
+    .morph-row select {
+      font: inherit;
+      width: 4.5em;
+    }
+    .morph-progress {
+      flex: 1;
+      height: 4px;
+      background: #505050;
+      border-radius: 2px;
+      overflow: hidden;
+    }
+    .morph-progress > div {
+      height: 100%;
+      background: var(--theme-color-magenta, #FF00FF);
+    }
+    .empty {
+      font-style: italic;
+      color: #888;
+    }
+    hr {
+      border: none;
+      border-top: 1px solid var(--button-small-border-color, #404040);
+      margin: 1vmin 0;
+    }
+  `;
+
+  @property({ type: Array }) scenes: Scene[] = [];
+  @property({ type: String }) activeSceneId: string | null = null;
+  @property({ type: String }) learningSceneId: string | null = null;
+  @property({ type: Number }) morphAmount = 0;
+  @property({ type: String }) morphUnit: RampUnit = 'bars';
+  @property({ type: Number }) morphProgress: number | null = null;
+
+  @state() private isOpen = false;
+
+  private toggleOpen() {
+    this.isOpen = !this.isOpen;
+  }
+
+  private dispatch(type: string, detail: string) {
+    this.dispatchEvent(new CustomEvent<string>(type, { detail, bubbles: true, composed: true }));
+  }
+
+  private handleSave() {
+    const name = window.prompt('Save current state as scene:', `Scene ${this.scenes.length + 1}`)?.trim();
+    if (name) this.dispatch('scene-save', name);
+  }
+
+  private handleDelete(scene: Scene) {
+    if (window.confirm(`Delete scene "${scene.name}"?`)) this.dispatch('scene-delete', scene.id);
+  }
+
+  private dispatchMorphChange(amount: number, unit: RampUnit) {
+    this.dispatchEvent(
+      new CustomEvent<{ amount: number; unit: RampUnit }>('scene-morph-changed', {
+        detail: { amount: Math.max(0, amount || 0), unit },
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  private describeTrigger(trigger: SceneTrigger | null): string {
+    if (!trigger) return 'Learn';
+    return `CH${trigger.channel + 1} ${trigger.type === 'note' ? 'N' : 'PC'}:${trigger.number}`;
+  }
+
+  override render() {
+    return html`
+      <button class="panel-button" @click=${this.toggleOpen} aria-expanded=${this.isOpen}>
+        Scenes${this.scenes.length > 0 ? ` (${this.scenes.length})` : ''}
+      </button>
+      <div class=${classMap({ dropdown: true, hidden: !this.isOpen })}>
+        ${this.scenes.length > 0
+          ? this.scenes.map((scene) => html`
+            <div class=${classMap({ scene: true, active: scene.id === this.activeSceneId })}>
+              <span
+                class="scene-name"
+                title="Recall ${scene.name}"
+                @click=${() => this.dispatch('scene-recall', scene.id)}
+              >${scene.name}</span>
+              <button
+                class=${classMap({ trigger: true, learning: scene.id === this.learningSceneId })}
+                title="Click, then press a pad or send a program change to trigger this scene. Right-click to clear."
+                @click=${() => this.dispatch('scene-learn', scene.id)}
+                @contextmenu=${(e: Event) => { e.preventDefault(); this.dispatch('scene-clear-trigger', scene.id); }}
+              >${scene.id === this.learningSceneId ? 'Learning…' : this.describeTrigger(scene.trigger)}</button>
+              <button @click=${() => this.dispatch('scene-overwrite', scene.id)} title="Overwrite with the current state">Save</button>
+              <button @click=${() => this.handleDelete(scene)} title="Delete scene">✕</button>
+            </div>`)
+          : html`<div class="empty">No scenes yet</div>`}
+        <hr />
+        <div class="morph-row" title="0 recalls scenes instantly">
+          Morph over
+          <input
+            type="number"
+            min="0"
+            step="1"
+            .value=${String(this.morphAmount)}
+            @change=${(e: Event) => this.dispatchMorphChange(Number((e.target as HTMLInputElement).value), this.morphUnit)} />
+          <select
+            .value=${this.morphUnit}
+            @change=${(e: Event) => this.dispatchMorphChange(this.morphAmount, (e.target as HTMLSelectElement).value as RampUnit)}>
+            <option value="bars" ?selected=${this.morphUnit === 'bars'}>bars</option>
+            <option value="seconds" ?selected=${this.morphUnit === 'seconds'}>sec</option>
+          </select>
+        </div>
+        ${this.morphProgress !== null
+          ? html`
+            <div class="morph-row">
+              <div class="morph-progress"><div style="width: ${Math.round(this.morphProgress * 100)}%"></div></div>
+              <button @click=${() => this.dispatchEvent(new CustomEvent('scene-morph-cancel', { bubbles: true, composed: true }))}>Stop</button>
+            </div>`
+          : ''}
+        <hr />
+        <button @click=${this.handleSave}>Save current as new scene…</button>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'scene-panel': ScenePanel;
+  }
+}
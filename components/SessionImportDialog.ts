@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import type { SessionChange } from '../utils/sessionFile';
+
+/** A modal previewing what an imported session will change, with apply and cancel. */
+@customElement('session-import-dialog')
+export class SessionImportDialog extends LitElement {
+  static override styles = css`
+    :host {
+      position: fixed;
+      inset: 0;
+      z-index: 100;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      background: rgba(0, 0, 0, 0.6);
+    }
+    .dialog {
+      width: min(560px, 90vw);
+      max-height: 80vh;
+      display: flex;
+      flex-direction: column;
+      padding: 2vmin;
+      background-color: rgba(30, 30, 30, 0.95);
+      border: 1.5px solid var(--button-small-border-color, #404040);
+      border-radius: 8px;
+      color: #eee;
+      font-size: 1.6vmin;
+    }
+    h2 {
+      margin: 0 0 1vmin 0;
+      font-size: 2.2vmin;
+    }
+    .changes {
+      flex: 1;
+      overflow-y: auto;
+      margin: 1vmin 0;
+    }
+    .section {
+      font-weight: bold;
+      margin-top: 1vmin;
+      color: var(--theme-color-cyan, #00FFFF);
+    }
+    ul {
+      margin: 0.5vmin 0;
+      padding-left: 2.5vmin;
+    }
+    .none {
+      font-style: italic;
+      color: #888;
+    }
+    .actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 1vmin;
+    }
+    button {
+      font: inherit;
+      padding: 0.6vmin 1.5vmin;
+      color: var(--button-small-text-color, #CCCCCC);
+      background: var(--button-small-bg-color, #282828);
+      border: 1.5px solid var(--button-small-border-color, #404040);
+      border-radius: 4px;
+      cursor: pointer;
+    }
+    button.apply {
+      color: #000;
+      background: var(--theme-color-cyan, #00FFFF);
+    }
+  `;
+
+  @property({ type: String }) exportedAt = '';
+  @property({ type: Array }) changes: SessionChange[] = [];
+
+  private dispatch(type: string) {
+    this.dispatchEvent(new CustomEvent(type, { bubbles: true, composed: true }));
+  }
+
+  override render() {
+    const sections = new Map<string, string[]>();
+    for (const { section, description } of this.changes) {
+      sections.set(section, [...(sections.get(section) ?? []), description]);
+    }
+    return html`
+      <div class="dialog" role="dialog" aria-modal="true" aria-label="Import session">
+        <h2>Import session</h2>
+        <div>Exported ${this.exportedAt ? new Date(this.exportedAt).toLocaleString() : 'at an unknown time'}.</div>
+        <div class="changes">
+          ${sections.size === 0
+            ? html`<div class="none">Nothing would change.</div>`
+            : [...sections].map(([section, items]) => html`
+              <div class="section">${section}</div>
+              <ul>${items.map((item) => html`<li>${item}</li>`)}</ul>`)}
+        </div>
+        <div class="actions">
+          <button @click=${() => this.dispatch('session-import-cancel')}>Cancel</button>
+          <button class="apply" @click=${() => this.dispatch('session-import-apply')}>Apply</button>
+        </div>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'session-import-dialog': SessionImportDialog;
+  }
+}
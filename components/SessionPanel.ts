@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { css, html, LitElement } from 'lit';
+import { customElement, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+/** A dropdown menu for exporting and importing the whole session as a file. */
+@customElement('session-panel')
+export class SessionPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      position: relative;
+    }
+    .panel-button {
+      font: inherit;
+      font-size: 1.8vmin;
+      padding: 0.8vmin 1vmin;
+      color: var(--button-small-text-color, #CCCCCC);
+      background: var(--button-small-bg-color, #282828);
+      border: 1.5px solid var(--button-small-border-color, #404040);
+      border-radius: 4px;
+      cursor: pointer;
+      user-select: none;
+      white-space: nowrap;
+    }
+    .panel-button:hover {
+      background-color: var(--button-small-bg-color-hover, #383838);
+      border-color: var(--button-small-border-color-hover, #505050);
+    }
+    .dropdown {
+      position: absolute;
+      top: calc(100% + 8px);
+      left: 0;
+      z-index: 10;
+      min-width: 180px;
+      padding: 0.5vmin 0;
+      background-color: var(--button-small-bg-color, #282828);
+      border: 1.5px solid var(--button-small-border-color, #404040);
+      border-radius: 6px;
+      box-shadow: 0 4px 8px rgba(0,0,0,0.2);
+      font-size: 1.6vmin;
+    }
+    .dropdown.hidden {
+      display: none;
+    }
+    .item {
+      display: block;
+      width: 100%;
+      padding: 0.6vmin 1.5vmin;
+      font: inherit;
+      text-align: left;
+      color: var(--button-small-text-color, #CCCCCC);
+      background: none;
+      border: none;
+      cursor: pointer;
+      white-space: nowrap;
+    }
+    .item:hover {
+      background: #383838;
+    }
+  `;
+
+  @state() private isOpen = false;
+
+  private dispatch(type: string, detail?: string) {
+    this.isOpen = false;
+    this.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }));
+  }
+
+  private async handleFileChosen(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+    this.dispatch('session-import', await file.text());
+  }
+
+  override render() {
+    return html`
+      <button class="panel-button" @click=${() => { this.isOpen = !this.isOpen; }} aria-expanded=${this.isOpen}>
+        Session
+      </button>
+      <div class=${classMap({ dropdown: true, hidden: !this.isOpen })}>
+        <button class="item" @click=${() => this.dispatch('session-export')}>Export session…</button>
+        <button class="item" @click=${() => this.shadowRoot?.querySelector<HTMLInputElement>('#session-file')?.click()}>
+          Import session…
+        </button>
+        <input id="session-file" type="file" accept=".json,application/json" hidden @change=${this.handleFileChosen} />
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'session-panel': SessionPanel;
+  }
+}
@@ -6,6 +6,21 @@ import { css, html, LitElement } from 'lit';
 import { customElement, property, query, state } from 'lit/decorators.js';
 import { classMap } from 'lit/directives/class-map.js';
 import type { LiveMusicGenerationConfig } from '../types';
+import type { MidiLearnRegistry } from '../utils/MidiLearnRegistry';
+import { SCALES } from '../utils/generationConfig';
+import './MidiLearnBadge';
+
+/** Settings that can follow a MIDI fader, with the range a full sweep covers. */
+const CONTINUOUS_SETTINGS = {
+  temperature: { min: 0, max: 2, step: 0.1 },
+  guidance: { min: 1, max: 10, step: 0.1 },
+  topK: { min: 1, max: 100, step: 1 },
+  density: { min: 0, max: 1, step: 0.05 },
+  brightness: { min: 0, max: 1, step: 0.05 },
+} as const;
+
+export type ContinuousSetting = keyof typeof CONTINUOUS_SETTINGS | 'scale';
+export type ToggleSetting = 'muteBass' | 'muteDrums';
 
 /** A panel for managing real-time music generation settings. */
 @customElement('settings-controller')
@@ -249,6 +264,10 @@ export class SettingsController extends LitElement {
       cursor: pointer;
       margin-left: 0.5vmin;
     }
+    midi-learn-badge {
+      margin-left: auto;
+      padding-left: 0.5vmin;
+    }
     .checkbox-group {
       display: flex;
       flex-direction: column;
@@ -268,6 +287,8 @@ export class SettingsController extends LitElement {
   @state() lastDefinedDensity: number | undefined = 0.5; 
   @state() autoBrightness = true;
   @state() lastDefinedBrightness: number | undefined = 0.5; 
+  @property({ type: Object }) midiLearn: MidiLearnRegistry | null = null;
+  @property({ type: Boolean }) showMidi = false;
 
   public resetToDefaults() {
     this.config = { ...this.defaultConfig };
@@ -284,6 +305,50 @@ export class SettingsController extends LitElement {
     this.requestUpdate(); 
   }
 
+  /** Replaces the whole config, e.g. from a recalled scene; unset density/brightness mean auto. */
+  public applyConfig(config: LiveMusicGenerationConfig) {
+    this.config = { ...config };
+    this.autoDensity = config.density === undefined;
+    if (config.density !== undefined) this.lastDefinedDensity = config.density;
+    this.autoBrightness = config.brightness === undefined;
+    if (config.brightness !== undefined) this.lastDefinedBrightness = config.brightness;
+    this.dispatchSettingsChange();
+  }
+
+  /** Sets a setting from a 0-1 value, e.g. a MIDI fader; density and brightness leave auto mode. */
+  public setNormalizedValue(key: ContinuousSetting, normalized: number) {
+    const newConfig = { ...this.config };
+    if (key === 'scale') {
+      const scales = [...SCALES.values()];
+      const scale = scales[Math.min(scales.length - 1, Math.floor(normalized * scales.length))];
+      newConfig.scale = scale === 'SCALE_UNSPECIFIED' ? undefined : scale;
+    } else {
+      const { min, max, step } = CONTINUOUS_SETTINGS[key];
+      const value = Math.round((min + normalized * (max - min)) / step) * step;
+      newConfig[key] = Number(value.toFixed(2));
+      if (key === 'density') {
+        this.autoDensity = false;
+        this.lastDefinedDensity = newConfig.density;
+      } else if (key === 'brightness') {
+        this.autoBrightness = false;
+        this.lastDefinedBrightness = newConfig.brightness;
+      }
+    }
+    if (newConfig[key] === this.config[key]) return;
+    this.config = newConfig;
+    this.dispatchSettingsChange();
+  }
+
+  public toggleSetting(key: ToggleSetting) {
+    this.config = { ...this.config, [key]: !this.config[key] };
+    this.dispatchSettingsChange();
+  }
+
+  private renderLearnBadge(targetId: string) {
+    if (!this.showMidi || !this.midiLearn) return '';
+    return html`<midi-learn-badge .registry=${this.midiLearn} .targetId=${targetId}></midi-learn-badge>`;
+  }
+
   private updateSliderBackground(inputEl: HTMLInputElement) {
     if (inputEl.type !== 'range') return;
     const min = Number(inputEl.min) || 0;
@@ -405,26 +470,11 @@ export class SettingsController extends LitElement {
       'advanced-settings': true,
       'visible': this.showAdvanced,
     });
-    const scaleMap = new Map<string, string>([
-      ['Auto', 'SCALE_UNSPECIFIED'],
-      ['C Major / A Minor', 'C_MAJOR_A_MINOR'],
-      ['C# / Db Major / A# / Bb Minor', 'D_FLAT_MAJOR_B_FLAT_MINOR'],
-      ['D Major / B Minor', 'D_MAJOR_B_MINOR'],
-      ['D# / Eb Major / C Minor', 'E_FLAT_MAJOR_C_MINOR'],
-      ['E Major / C# / Db Minor', 'E_MAJOR_D_FLAT_MINOR'],
-      ['F Major / D Minor', 'F_MAJOR_D_MINOR'],
-      ['F# / Gb Major / D# / Eb Minor', 'G_FLAT_MAJOR_E_FLAT_MINOR'],
-      ['G Major / E Minor', 'G_MAJOR_E_MINOR'],
-      ['G# / Ab Major / F Minor', 'A_FLAT_MAJOR_F_MINOR'],
-      ['A Major / F# / Gb Minor', 'A_MAJOR_G_FLAT_MINOR'],
-      ['A# / Bb Major / G Minor', 'B_FLAT_MAJOR_G_MINOR'],
-      ['B Major / G# / Ab Minor', 'B_MAJOR_A_FLAT_MINOR'],
-    ]);
 
     return html`
       <div class="core-settings-row">
         <div class="setting">
-          <label for="temperature">Temperature <span>${(cfg.temperature ?? this.defaultConfig.temperature!).toFixed(1)}</span></label>
+          <label for="temperature">Temperature ${this.renderLearnBadge('settings.temperature')}<span>${(cfg.temperature ?? this.defaultConfig.temperature!).toFixed(1)}</span></label>
           <input
             type="range"
             id="temperature"
@@ -435,7 +485,7 @@ export class SettingsController extends LitElement {
             @input=${this.handleInputChange} />
         </div>
         <div class="setting">
-          <label for="guidance">Guidance <span>${(cfg.guidance ?? this.defaultConfig.guidance!).toFixed(1)}</span></label>
+          <label for="guidance">Guidance ${this.renderLearnBadge('settings.guidance')}<span>${(cfg.guidance ?? this.defaultConfig.guidance!).toFixed(1)}</span></label>
           <input
             type="range"
             id="guidance"
@@ -446,7 +496,7 @@ export class SettingsController extends LitElement {
             @input=${this.handleInputChange} />
         </div>
         <div class="setting">
-          <label for="topK">Top K <span>${cfg.topK ?? this.defaultConfig.topK!}</span></label>
+          <label for="topK">Top K ${this.renderLearnBadge('settings.topK')}<span>${cfg.topK ?? this.defaultConfig.topK!}</span></label>
           <input
             type="range"
             id="topK"
@@ -480,7 +530,7 @@ export class SettingsController extends LitElement {
             placeholder="App Default" />
         </div>
         <div class="setting" auto=${this.autoDensity.toString()}>
-          <label for="density">Density </label>
+          <label for="density">Density ${this.renderLearnBadge('settings.density')}</label>
           <input
             type="range"
             id="density"
@@ -501,7 +551,7 @@ export class SettingsController extends LitElement {
           </div>
         </div>
         <div class="setting" auto=${this.autoBrightness.toString()}>
-          <label for="brightness">Brightness</label>
+          <label for="brightness">Brightness ${this.renderLearnBadge('settings.brightness')}</label>
           <input
             type="range"
             id="brightness"
@@ -522,12 +572,12 @@ export class SettingsController extends LitElement {
           </div>
         </div>
         <div class="setting">
-          <label for="scale">Scale Override</label>
+          <label for="scale">Scale Override ${this.renderLearnBadge('settings.scale')}</label>
           <select
             id="scale"
             .value=${cfg.scale || 'SCALE_UNSPECIFIED'}
             @change=${this.handleInputChange}>
-            ${[...scaleMap.entries()].map(
+            ${[...SCALES.entries()].map(
               ([displayName, enumValue]) =>
                 html`<option value=${enumValue} ?selected=${cfg.scale === enumValue}>${displayName}</option>`,
             )}
@@ -541,6 +591,7 @@ export class SettingsController extends LitElement {
               .checked=${!!cfg.muteBass}
               @change=${this.handleInputChange} />
             <label for="muteBass" style="font-weight: normal;">Mute Bass</label>
+            ${this.renderLearnBadge('settings.muteBass')}
           </div>
           <div class="checkbox-setting">
             <input
@@ -549,6 +600,7 @@ export class SettingsController extends LitElement {
               .checked=${!!cfg.muteDrums}
               @change=${this.handleInputChange} />
             <label for="muteDrums" style="font-weight: normal;">Mute Drums</label>
+            ${this.renderLearnBadge('settings.muteDrums')}
           </div>
           <div class="checkbox-setting">
             <input
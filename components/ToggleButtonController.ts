@@ -6,7 +6,8 @@ import { css, html, LitElement } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
 import { classMap } from 'lit/directives/class-map.js';
 import { styleMap } from 'lit/directives/style-map.js';
-import type { Prompt } from '../types';
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+import type { Prompt, NoteMessage } from '../types';
 
 const ON_WEIGHT = 0.8; 
 const OFF_WEIGHT = 0;
@@ -18,6 +19,7 @@ export class ToggleButtonController extends LitElement {
       display: flex; 
       width: 100%;
       height: 100%; 
+      position: relative;
     }
     .toggle-button {
       font-family: 'Google Sans', sans-serif;
@@ -69,6 +71,31 @@ export class ToggleButtonController extends LitElement {
     .toggle-button:active:not(.on):not(.filtered) {
       background-color: var(--button-bg-color-active, #555);
     }
+
+    #midi {
+      position: absolute;
+      bottom: 0.5vmin;
+      left: 50%;
+      transform: translateX(-50%);
+      font-family: monospace;
+      font-size: clamp(1.2vmin, 2.5vw, 1.6vmin);
+      border: 0.15vmin solid #fff;
+      border-radius: 0.5vmin;
+      padding: 0 4px;
+      color: #fff;
+      background: #0006;
+      cursor: pointer;
+      user-select: none;
+      white-space: nowrap;
+    }
+    #midi.learn-mode {
+      color: #FF00FF;
+      border-color: #FF00FF;
+    }
+    #midi.offline {
+      opacity: 0.5;
+      text-decoration: line-through;
+    }
   `;
 
   @property({ type: String }) promptId = '';
@@ -80,6 +107,15 @@ export class ToggleButtonController extends LitElement {
   @property({ type: Boolean, reflect: true }) filtered = false;
   @property({ type: Number }) audioLevel = 0; 
 
+  @property({ type: Number }) note = -1;
+  @property({ type: Number }) channel = 0;
+  @property({ attribute: false }) deviceId: string | null = null;
+  @property({ type: Boolean }) deviceOnline = true;
+  @property({ type: Boolean }) showCC = false;
+  @property({ type: Object })
+  midiDispatcher: MidiDispatcher | null = null;
+
+  @state() private learnMode = false;
   @state() private isOn = false;
   @state() private lastValidText: string = '';
 
@@ -93,7 +129,26 @@ export class ToggleButtonController extends LitElement {
     if (!this.computedStyle && this.shadowRoot) {
         this.computedStyle = getComputedStyle(this);
     }
+    this.midiDispatcher?.addEventListener('note-on', this.handleNoteOn);
   }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.midiDispatcher?.removeEventListener('note-on', this.handleNoteOn);
+  }
+
+  private handleNoteOn = (e: Event) => {
+    const { note, channel, deviceId } = (e as CustomEvent<NoteMessage>).detail;
+    if (this.learnMode) {
+      this.note = note;
+      this.channel = channel;
+      this.deviceId = this.midiDispatcher?.lockLearnToDevice ? deviceId : null;
+      this.learnMode = false;
+      this.dispatchPromptChange();
+    } else if (note === this.note && channel === this.channel && (this.deviceId === null || deviceId === this.deviceId)) {
+      this.toggle();
+    }
+  };
   
   override firstUpdated() {
     this.lastValidText = this.text;
@@ -108,6 +163,13 @@ export class ToggleButtonController extends LitElement {
   }
 
 
+  override update(changedProperties: Map<string | number | symbol, unknown>) {
+    if (changedProperties.has('showCC') && !this.showCC) {
+      this.learnMode = false;
+    }
+    super.update(changedProperties);
+  }
+
   override updated(changedProperties: Map<string | number | symbol, unknown>): void {
     if (changedProperties.has('weight')) {
       const newIsOn = this.weight === ON_WEIGHT;
@@ -176,6 +238,10 @@ export class ToggleButtonController extends LitElement {
 
 
   private handleMainButtonClick() {
+    this.toggle();
+  }
+
+  private toggle() {
     if (this.filtered) return; 
 
     this.isOn = !this.isOn;
@@ -193,6 +259,9 @@ export class ToggleButtonController extends LitElement {
           text: this.text,
           weight: this.weight,
           cc: -1, 
+          note: this.note,
+          channel: this.channel,
+          deviceId: this.deviceId,
           color: this.color,
           categoryKey: this.categoryKey,
           sourceType: this.sourceType,
@@ -201,6 +270,11 @@ export class ToggleButtonController extends LitElement {
     );
   }
 
+  private toggleLearnMode(e: Event) {
+    e.stopPropagation();
+    this.learnMode = !this.learnMode;
+  }
+
   private onTextFocus(e: FocusEvent) {
     if (this.filtered) return;
     const target = e.target as HTMLElement;
@@ -339,6 +413,14 @@ export class ToggleButtonController extends LitElement {
           @click=${(e: Event) => { if (this.filtered) { e.stopPropagation(); e.preventDefault(); } }}
         >${this.text}</span>
       </div>
+      ${this.showCC ? html`
+        <div
+          id="midi"
+          class=${classMap({ 'learn-mode': this.learnMode, offline: !this.deviceOnline })}
+          title=${this.deviceId ? `Bound to ${this.midiDispatcher?.getDeviceName(this.deviceId) ?? this.deviceId}` : 'Any device'}
+          @click=${this.toggleLearnMode}
+        >${this.learnMode ? 'Learn' : `CH${this.channel + 1} NOTE:${this.note >= 0 ? this.note : '-'}`}</div>
+      ` : ''}
     `;
   }
 }
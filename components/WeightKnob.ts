@@ -2,7 +2,7 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { css, html, LitElement } from 'lit';
+import { css, html, svg, LitElement } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
 import { styleMap } from 'lit/directives/style-map.js';
 
@@ -13,6 +13,11 @@ const MAX_HALO_SCALE = 2.5;
 /** The amount of scale to add to the halo based on audio level. */
 const HALO_LEVEL_MODIFIER = 1.5; 
 
+/** Clamps a value to the 0-2 prompt weight range. */
+export function clampWeight(value: number): number {
+  return Math.max(0, Math.min(2, value));
+}
+
 /** A knob for adjusting and visualizing prompt weight. */
 @customElement('weight-knob')
 export class WeightKnob extends LitElement {
@@ -49,6 +54,8 @@ export class WeightKnob extends LitElement {
   @property({ type: Number }) value = 0;
   @property({ type: String }) color = '#000'; // This will be a theme color from the prompt
   @property({ type: Number }) audioLevel = 0;
+  /** Position of a hardware knob that hasn't taken over the value yet, shown as a hollow marker. */
+  @property({ type: Number }) hardwareValue: number | null = null;
 
   @state() private _svgKnobStaticHighlight = '#FFFFFF';
   @state() private _svgKnobStaticMidtone = '#F0E6D2';
@@ -104,8 +111,7 @@ export class WeightKnob extends LitElement {
 
   private handlePointerMove(e: PointerEvent) {
     const delta = this.dragStartPos - e.clientY;
-    this.value = this.dragStartValue + delta * 0.01;
-    this.value = Math.max(0, Math.min(2, this.value));
+    this.value = clampWeight(this.dragStartValue + delta * 0.01);
     this.dispatchEvent(new CustomEvent<number>('input', { detail: this.value }));
   }
 
@@ -117,8 +123,7 @@ export class WeightKnob extends LitElement {
 
   private handleWheel(e: WheelEvent) {
     const delta = e.deltaY;
-    this.value = this.value + delta * -0.0025;
-    this.value = Math.max(0, Math.min(2, this.value));
+    this.value = clampWeight(this.value + delta * -0.0025);
     this.dispatchEvent(new CustomEvent<number>('input', { detail: this.value }));
   }
 
@@ -168,6 +173,8 @@ export class WeightKnob extends LitElement {
     // For the arc foreground, var() should still work as it's a direct stroke attribute.
     const arcForegroundColor = this.value > 0 && this.color ? this.color : '#F7A868';
 
+    const hardwareRot = this.hardwareValue === null ? null : minRot + (this.hardwareValue / 2) * (maxRot - minRot);
+
 
     return html`
       <div id="halo" style=${haloStyle}></div>
@@ -191,6 +198,10 @@ export class WeightKnob extends LitElement {
           stroke=${arcForegroundColor} /* Use the determined color */
           stroke-width="3"
           stroke-linecap="round" />
+        ${hardwareRot === null ? '' : svg`
+          <g style=${styleMap({ transform: `translate(40px, 40px) rotate(${hardwareRot}rad)` })}>
+            <circle cx="34.5" cy="0" r="3" fill="none" stroke="#FF00FF" stroke-width="1.5" />
+          </g>`}
       </svg>
     `;
   }
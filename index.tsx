@@ -8,36 +8,71 @@ import { css, html, LitElement, type CSSResultGroup } from 'lit';
 import { customElement, property, query, state } from 'lit/decorators.js';
 import { styleMap } from 'lit/directives/style-map.js';
 
-import { GoogleGenAI, type LiveMusicSession, type LiveMusicServerMessage, type GenerateContentResponse, type AudioChunk } from '@google/genai';
+import { GoogleGenAI, type LiveMusicServerMessage, type GenerateContentResponse, type AudioChunk } from '@google/genai';
 
-import { decode, decodeAudioData } from './utils/audio'; 
+import { decode, decodeAudioData, parseAudioMimeType } from './utils/audio'; 
 import { throttle } from './utils/throttle';
 import { AudioAnalyser } from './utils/AudioAnalyser';
 import { MidiDispatcher } from './utils/MidiDispatcher';
+import { MidiFeedback } from './utils/MidiFeedback';
+import { MidiLearnRegistry } from './utils/MidiLearnRegistry';
+import { MidiClockFollower } from './utils/MidiClockFollower';
+import { MidiClockMaster } from './utils/MidiClockMaster';
+import { SceneStore } from './utils/SceneStore';
+import { morphConfig, morphPrompts } from './utils/sceneMorph';
+import { rampDurationSeconds, type RampUnit } from './utils/bpmRamp';
+import { UndoHistory } from './utils/UndoHistory';
+import { crossfaderGains, type CrossfaderCurve, type Deck } from './utils/crossfader';
+import {
+  applyMappingProfile,
+  captureMappingProfile,
+  findProfileForDevice,
+  getStoredMappingProfiles,
+  parseMappingProfile,
+  setStoredMappingProfiles,
+} from './utils/mappingProfiles';
+import { DEFAULT_ENCODER_CONFIG } from './utils/relativeEncoder';
+import { diffSessionDocuments, parseSessionDocument, SESSION_FORMAT, SESSION_VERSION, type SessionChange } from './utils/sessionFile';
+import { downloadJson } from './utils/download';
+import { buildShareLink, decodeShareFragment, isShareFragment, type SharedSetup } from './utils/shareLink';
+import { createLyriaSessionProvider, type MusicSession } from './utils/musicSession';
+import { createMockSessionProvider } from './utils/MockMusicSession';
+import { ConnectionManager } from './utils/ConnectionManager';
+import { JitterBuffer } from './utils/JitterBuffer';
+import { classifySessionError, decideErrorHandling, isRetryable, SessionError, type ErrorAction } from './utils/sessionErrors';
 
 import './components/WeightKnob';
 import './components/PromptController';
 import './components/ToggleButtonController';
 import './components/SlideshowController';
 import './components/BpmController';
+import { COARSE_NUDGE, FINE_NUDGE, type BpmController } from './components/BpmController';
+import './components/MidiDevicePanel';
+import './components/MidiLearnBadge';
+import './components/ScenePanel';
+import './components/Crossfader';
+import './components/HistoryPanel';
+import './components/SessionPanel';
+import './components/SessionImportDialog';
+import './components/ConnectionStatusIndicator';
+import './components/AudioDiagnostics';
 import { PlayPauseButton } from './components/PlayPauseButton';
 import { RandomizeButton } from './components/RandomizeButton'; // Import new RandomizeButton
 import { ToastMessage } from './components/ToastMessage';
 import './components/SettingsController'; 
-import type { SettingsController } from './components/SettingsController';
+import type { SettingsController, ContinuousSetting, ToggleSetting } from './components/SettingsController';
 import './components/FaderController'; // Ensure WeightSlider (fader) is defined
 
 
-import type { Prompt, PlaybackState, LiveMusicGenerationConfig } from './types';
+import type { Prompt, PlaybackState, LiveMusicGenerationConfig, MidiDevicesChange, MidiBinding, MappingProfile, MidiTransportMessage, NoteMessage, ProgramChangeMessage, Scene, SceneTrigger, HistorySnapshot, SessionDocument, ConnectionStatus, AudioChunkStats, JitterBufferMetrics } from './types';
 
-// Extend LiveMusicSession type to include setBpm, assuming it's a Lyria-specific capability
-interface ExtendedLiveMusicSession extends LiveMusicSession {
-  setBpm(params: { bpm: number }): Promise<void>;
-  setMusicGenerationConfig(params: { musicGenerationConfig: LiveMusicGenerationConfig }): Promise<void>;
-}
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// No client without a key: the SDK refuses to construct one in the browser, and mock mode needs none.
+const ai = process.env.API_KEY ? new GoogleGenAI({ apiKey: process.env.API_KEY }) : null;
 const model = 'lyria-realtime-exp';
+// MUSIC_SESSION_PROVIDER=mock swaps Lyria for a local synthetic stream, for working offline.
+const musicSessionProvider = process.env.MUSIC_SESSION_PROVIDER === 'mock'
+  ? createMockSessionProvider()
+  : createLyriaSessionProvider(ai, model);
 
 // Fallback prompts if preset JSON files are unavailable
 const DEFAULT_PROMPTS_FALLBACK: Array<{ text: string }> = [
@@ -82,6 +117,17 @@ const IMAGE_FADE_DURATION = 3000;
 // BPM Prompt constants
 const BPM_PROMPT_ID = 'internal-bpm-prompt';
 const BPM_PROMPT_WEIGHT = 0.8;
+/** Raw 16-bit PCM, the only audio the session is expected to send. */
+const PCM_MIME_TYPES = ['audio/l16', 'audio/pcm'];
+const EMPTY_AUDIO_CHUNK_STATS: AudioChunkStats = {
+  received: 0, queued: 0, dropped: 0, malformed: 0, formatMismatches: 0, lastIssue: null,
+};
+
+// Scene morph constants
+const MORPH_STEP_MS = 50;
+const MORPH_CONFIG_THROTTLE_MS = 250;
+const SESSION_PROMPTS_THROTTLE_MS = 200;
+const BPM_SEND_THROTTLE_MS = 300;
 
 
 interface HaloBlob {
@@ -350,6 +396,15 @@ class PromptDjMidi extends LitElement {
       max-width: 900px; 
     }
     
+    #playback-learn-badges {
+      position: absolute;
+      bottom: calc(100% + 0.8vmin);
+      left: 0;
+      right: 0;
+      display: flex;
+      justify-content: space-around;
+    }
+
     #main-playback-controls {
       position: fixed;
       bottom: 1.5vmin;
@@ -371,6 +426,32 @@ class PromptDjMidi extends LitElement {
 
     /* Removed button selector as RandomizeButton is now a custom element */
 
+    #crossfader-toggle {
+      font-family: 'Audiowide', 'Google Sans', sans-serif;
+      font-size: 1.6vmin;
+      padding: 0.6vmin 1vmin;
+      color: var(--button-small-text-color, #CCCCCC);
+      background: var(--button-small-bg-color, #282828);
+      border: 1.5px solid var(--button-small-border-color, #404040);
+      border-radius: 4px;
+      cursor: pointer;
+    }
+    #share-link-button {
+      font: inherit;
+      font-size: 1.8vmin;
+      padding: 0.8vmin 1vmin;
+      color: var(--button-small-text-color, #CCCCCC);
+      background: var(--button-small-bg-color, #282828);
+      border: 1.5px solid var(--button-small-border-color, #404040);
+      border-radius: 4px;
+      cursor: pointer;
+      white-space: nowrap;
+    }
+    #crossfader-toggle.active {
+      color: #000;
+      background: var(--theme-color-magenta, #FF00FF);
+    }
+
     select {
       font: inherit;
       padding: 0.8vmin 1vmin; 
@@ -385,16 +466,25 @@ class PromptDjMidi extends LitElement {
   `;
 
   private prompts: Map<string, Prompt>;
+  /** Second prompt set for the A/B crossfader; `prompts` is deck A. */
+  private deckBPrompts = new Map<string, Prompt>();
+  /** Setup opened from a share link; its BPM and settings are applied once the controls exist. */
+  private sharedSetup: SharedSetup | null;
   private midiDispatcher: MidiDispatcher;
+  private midiFeedback: MidiFeedback;
+  private midiLearn: MidiLearnRegistry;
+  private midiClockFollower: MidiClockFollower;
+  private midiClockMaster: MidiClockMaster;
   private audioAnalyser: AudioAnalyser;
 
   @state() private playbackState: PlaybackState = 'stopped';
 
-  private session: ExtendedLiveMusicSession | undefined;
+  private session: MusicSession | undefined;
   private audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 48000 });
   private outputNode: GainNode = this.audioContext.createGain();
-  private nextStartTime = 0;
-  private readonly bufferTime = 1;
+  /** Set once the playback worklet has loaded. */
+  private jitterBuffer: JitterBuffer | null = null;
+  @state() private jitterBufferMetrics: JitterBufferMetrics | null = null;
 
   @property({ type: Boolean }) private showMidi = false;
   @state() private overallAudioLevel = 0;
@@ -402,17 +492,57 @@ class PromptDjMidi extends LitElement {
 
 
   @state() private midiInputIds: string[] = [];
-  @state() private activeMidiInputId: string | null = null;
+  @state() private activeMidiInputIds: string[] = [];
+  @state() private midiOutputIds: string[] = [];
+  @state() private activeMidiOutputId: string | null = null;
+  @state() private mappingProfiles: MappingProfile[] = getStoredMappingProfiles();
+  @state() private activeMappingProfileName: string | null = null;
+  @state() private followMidiClock = false;
+  @state() private midiClockOutputId: string | null = null;
+
+  private readonly sceneStore = new SceneStore();
+  @state() private scenes: Scene[] = [];
+  @state() private activeSceneId: string | null = null;
+  @state() private learningSceneId: string | null = null;
+  /** Morph length for scene recalls; 0 recalls instantly. */
+  @state() private sceneMorphAmount = 0;
+  @state() private sceneMorphUnit: RampUnit = 'bars';
+  @state() private morphProgress: number | null = null;
+  private morphTimer: number | null = null;
+  /** Old prompt texts fading out during a morph; sent to the session but not shown. */
+  private morphOutgoingPrompts: Prompt[] = [];
+
+  @state() private crossfaderEnabled = false;
+  @state() private crossfaderPosition = 0;
+  @state() private crossfaderCurve: CrossfaderCurve = 'constant-power';
+  @state() private editingDeck: Deck = 'A';
+  /** A parsed session file waiting for the user to confirm the previewed changes. */
+  @state() private pendingSessionImport: { document: SessionDocument; changes: SessionChange[] } | null = null;
+
+  private readonly history = new UndoHistory<HistorySnapshot>();
+  /** Set while state is changed as a whole (undo, scenes, reset), so the parts aren't recorded as steps. */
+  private suppressHistory = false;
+  /** Devices whose profile was already auto-selected, so a manual switch isn't undone later. */
+  private readonly profileCheckedDeviceIds = new Set<string>();
 
   @state() private filteredPrompts = new Set<string>();
 
   private audioLevelRafId: number | null = null;
   private globalHaloRafId: number | null = null;
   @state() private connectionError = true;
+  private readonly connectionManager = new ConnectionManager(() => this.connectToSession(), isRetryable);
+  @state() private connectionStatus: ConnectionStatus = this.connectionManager.getStatus();
+  /** Whether playback should pick up again once a dropped session is back. */
+  private resumeAfterReconnect = false;
+  /** Bumped whenever a session is replaced, so callbacks from an abandoned socket are ignored. */
+  private sessionGeneration = 0;
+  /** Tail of the chain that processes incoming audio chunks in order. */
+  private audioChunkQueue: Promise<void> = Promise.resolve();
 
   @query('play-pause-button') private playPauseButton!: PlayPauseButton;
   @query('toast-message') private toastMessage!: ToastMessage;
   @query('settings-controller') private settingsControllerEl!: SettingsController;
+  @query('bpm-controller') private bpmControllerEl!: BpmController;
 
 
   private knobPresetCategories: CategorizedPresets | null = null;
@@ -428,6 +558,7 @@ class PromptDjMidi extends LitElement {
 
   @state() private sessionSampleRate: number = 48000; 
   @state() private sessionNumChannels: number = 2;    
+  @state() private audioChunkStats = EMPTY_AUDIO_CHUNK_STATS;
 
 
   private showToast(message: string) {
@@ -448,13 +579,21 @@ class PromptDjMidi extends LitElement {
   constructor(
     initialPrompts: Map<string, Prompt>,
     midiDispatcher: MidiDispatcher,
+    midiLearn: MidiLearnRegistry,
     knobPresets: CategorizedPresets | null,
     buttonPresets: CategorizedPresets | null,
-    slideshowPresets: SlideshowPresetFile | null
+    slideshowPresets: SlideshowPresetFile | null,
+    sharedSetup: SharedSetup | null = null
   ) {
     super();
     this.prompts = initialPrompts;
+    this.sharedSetup = sharedSetup;
     this.midiDispatcher = midiDispatcher;
+    this.midiFeedback = new MidiFeedback(midiDispatcher);
+    this.midiLearn = midiLearn;
+    this.midiClockFollower = new MidiClockFollower(midiDispatcher);
+    this.midiClockMaster = new MidiClockMaster(midiDispatcher, this.audioContext);
+    this.registerMidiLearnTargets();
     this.knobPresetCategories = knobPresets;
     this.buttonPresetCategories = buttonPresets;
     this.slideshowPresetData = slideshowPresets;
@@ -462,6 +601,7 @@ class PromptDjMidi extends LitElement {
     this.audioAnalyser = new AudioAnalyser(this.audioContext, 1024);
     this.audioAnalyser.node.connect(this.audioContext.destination);
     this.outputNode.connect(this.audioAnalyser.node);
+    this.createJitterBuffer();
     this.updateAudioLevel = this.updateAudioLevel.bind(this);
     this.animateGlobalHalo = this.animateGlobalHalo.bind(this);
     this.initializeGlobalHaloBlobs();
@@ -469,6 +609,29 @@ class PromptDjMidi extends LitElement {
     this.fetchAppMetadata();
   }
 
+  private async createJitterBuffer() {
+    try {
+      const jitterBuffer = await JitterBuffer.create(this.audioContext);
+      jitterBuffer.node.connect(this.outputNode);
+      jitterBuffer.addEventListener('started', this.handleJitterBufferStarted);
+      jitterBuffer.addEventListener('metrics', (e: Event) => {
+        this.jitterBufferMetrics = (e as CustomEvent<JitterBufferMetrics>).detail;
+      });
+      this.jitterBuffer = jitterBuffer;
+    } catch (e) {
+      console.error('Failed to load the audio playback worklet:', e);
+      this.showToast('Audio playback is not supported in this browser.');
+    }
+  }
+
+  /** Playback (re)starts once the buffer holds its target latency; an underrun leaves the clock running. */
+  private handleJitterBufferStarted = (e: Event) => {
+    if (this.playbackState === 'loading') this.playbackState = 'playing';
+    if (!this.midiClockMaster.isRunning) {
+      this.midiClockMaster.start((e as CustomEvent<number>).detail);
+    }
+  };
+
   private async fetchAppMetadata() {
     try {
       const response = await fetch('./metadata.json');
@@ -481,7 +644,7 @@ class PromptDjMidi extends LitElement {
       if (metadata && metadata['bpm-range'] && metadata['bpm-range'].length === 2) {
         this.minBpm = metadata['bpm-range'][0];
         this.maxBpm = metadata['bpm-range'][1];
-        this.currentBpm = Math.max(this.minBpm, Math.min(120.0, this.maxBpm));
+        this.currentBpm = Math.max(this.minBpm, Math.min(this.sharedSetup?.bpm ?? 120.0, this.maxBpm));
         console.log(`BPM range loaded: ${this.minBpm}-${this.maxBpm}, current: ${this.currentBpm}`);
       } else {
         this.initializeBpmDefaults();
@@ -495,7 +658,7 @@ class PromptDjMidi extends LitElement {
   private initializeBpmDefaults() {
     this.minBpm = 110;
     this.maxBpm = 150;
-    this.currentBpm = 120.0;
+    this.currentBpm = Math.max(this.minBpm, Math.min(this.sharedSetup?.bpm ?? 120.0, this.maxBpm));
     console.warn(`Using default BPM range: ${this.minBpm}-${this.maxBpm}, current: ${this.currentBpm}`);
   }
 
@@ -549,6 +712,15 @@ class PromptDjMidi extends LitElement {
     this.updateAudioLevel();
     this.animateGlobalHalo();
     this.addEventListener('prompts-changed', this.handlePromptsChangedEvent);
+    this.midiDispatcher.addEventListener('devices-changed', this.handleMidiDevicesChanged);
+    this.midiLearn.addEventListener('bindings-changed', this.handleMidiBindingsChanged);
+    this.midiDispatcher.addEventListener('note-on', this.handleSceneNote);
+    document.addEventListener('keydown', this.handleHistoryKeyDown);
+    this.midiDispatcher.addEventListener('program-change', this.handleSceneProgramChange);
+    this.connectionManager.addEventListener('status-changed', this.handleConnectionStatusChanged);
+    this.sceneStore.getAll()
+      .then(scenes => { this.scenes = scenes; })
+      .catch(e => console.error('Failed to load scenes:', e));
   }
 
   override disconnectedCallback() {
@@ -562,6 +734,14 @@ class PromptDjMidi extends LitElement {
       this.globalHaloRafId = null;
     }
     this.removeEventListener('prompts-changed', this.handlePromptsChangedEvent);
+    this.midiDispatcher.removeEventListener('devices-changed', this.handleMidiDevicesChanged);
+    this.midiLearn.removeEventListener('bindings-changed', this.handleMidiBindingsChanged);
+    this.midiDispatcher.removeEventListener('note-on', this.handleSceneNote);
+    document.removeEventListener('keydown', this.handleHistoryKeyDown);
+    this.midiDispatcher.removeEventListener('program-change', this.handleSceneProgramChange);
+    this.connectionManager.removeEventListener('status-changed', this.handleConnectionStatusChanged);
+    this.setFollowMidiClock(false);
+    this.midiClockMaster.stop();
     if (this.session) {
         try {
             this.session.close();
@@ -579,8 +759,81 @@ class PromptDjMidi extends LitElement {
     setStoredPrompts(promptsToStore);
   };
 
+  private handleMidiBindingsChanged = (e: Event) => {
+    setStoredMidiBindings((e as CustomEvent<MidiBinding[]>).detail);
+  };
+
+  /** Makes the global controls (BPM, transport and generation settings) MIDI-learnable. */
+  private registerMidiLearnTargets() {
+    this.midiLearn.register({
+      id: 'bpm',
+      label: 'BPM',
+      kind: 'continuous',
+      apply: (normalized) => {
+        const bpm = this.minBpm + normalized * (this.maxBpm - this.minBpm);
+        this.bpmControllerEl?.cancelRamp();
+        this.handleBpmChange(new CustomEvent('bpm-changed', { detail: { bpm } }));
+      },
+    });
+    this.midiLearn.register({ id: 'bpm.tap', label: 'Tap Tempo', kind: 'trigger', trigger: () => this.bpmControllerEl?.tap() });
+    const nudges: Array<[string, string, number]> = [
+      ['bpm.nudge-down-coarse', 'BPM -1', -COARSE_NUDGE],
+      ['bpm.nudge-down', 'BPM -0.1', -FINE_NUDGE],
+      ['bpm.nudge-up', 'BPM +0.1', FINE_NUDGE],
+      ['bpm.nudge-up-coarse', 'BPM +1', COARSE_NUDGE],
+    ];
+    for (const [id, label, delta] of nudges) {
+      this.midiLearn.register({ id, label, kind: 'trigger', trigger: () => this.bpmControllerEl?.nudge(delta) });
+    }
+    this.midiLearn.register({
+      id: 'crossfader',
+      label: 'Crossfader',
+      kind: 'continuous',
+      apply: (normalized) => {
+        this.crossfaderPosition = normalized;
+        if (this.crossfaderEnabled) this.setSessionPrompts();
+      },
+    });
+    this.midiLearn.register({ id: 'play-pause', label: 'Play/Pause', kind: 'trigger', trigger: () => this.handlePlayPause() });
+    this.midiLearn.register({ id: 'reset', label: 'Reset', kind: 'trigger', trigger: () => this.resetAll() });
+
+    const continuousSettings: Array<[ContinuousSetting, string]> = [
+      ['temperature', 'Temperature'],
+      ['guidance', 'Guidance'],
+      ['topK', 'Top K'],
+      ['density', 'Density'],
+      ['brightness', 'Brightness'],
+      ['scale', 'Scale'],
+    ];
+    for (const [key, label] of continuousSettings) {
+      this.midiLearn.register({
+        id: `settings.${key}`,
+        label,
+        kind: 'continuous',
+        apply: (normalized) => this.settingsControllerEl?.setNormalizedValue(key, normalized),
+      });
+    }
+    const toggleSettings: Array<[ToggleSetting, string]> = [
+      ['muteBass', 'Mute Bass'],
+      ['muteDrums', 'Mute Drums'],
+    ];
+    for (const [key, label] of toggleSettings) {
+      this.midiLearn.register({
+        id: `settings.${key}`,
+        label,
+        kind: 'trigger',
+        trigger: () => this.settingsControllerEl?.toggleSetting(key),
+      });
+    }
+  }
+
   override async firstUpdated() {
     this.slideshowBgColor = '#111111';
+    if (this.sharedSetup) {
+      this.settingsControllerEl?.applyConfig(this.sharedSetup.config);
+      setStoredPrompts(this.prompts);
+    }
+    this.history.reset('Start', this.captureSnapshot());
     try {
       await this.connectToSession();
       if (!this.connectionError) {
@@ -595,27 +848,17 @@ class PromptDjMidi extends LitElement {
         }
       }
     } catch (error) {
-      console.error("Fatal error during initial session connection:", error);
-      this.connectionError = true;
-      this.playbackState = 'stopped';
-      this.session = undefined; 
-      this.showToast("Fatal: Could not initialize music session. Check API Key and network.");
+      this.handleSessionError(error, 'Initial connection');
     }
   }
 
   private async sendCurrentBpmToSession() {
-    if (this.session && this.currentBpm !== null && typeof (this.session as ExtendedLiveMusicSession).setBpm === 'function') {
+    if (this.session && this.currentBpm !== null && typeof this.session.setBpm === 'function') {
       try {
-        await (this.session as ExtendedLiveMusicSession).setBpm({ bpm: Math.round(this.currentBpm) });
+        await this.session.setBpm({ bpm: Math.round(this.currentBpm) });
         console.log(`Dedicated BPM ${this.currentBpm} sent to session.`);
       } catch (e) {
-        console.warn("Error setting dedicated BPM on session:", e);
-        if (e instanceof Error && (e.message.includes('session is closed') || e.message.includes('unavailable'))) {
-            this.connectionError = true;
-            this.playbackState = 'stopped';
-            this.session = undefined;
-            this.showToast('Session lost while setting BPM. Please restart audio.');
-        }
+        this.handleSessionError(e, 'Error setting BPM');
       }
     }
   }
@@ -629,6 +872,8 @@ class PromptDjMidi extends LitElement {
         text: bpmPromptText,
         weight: BPM_PROMPT_WEIGHT,
         cc: -1,
+        channel: 0,
+        deviceId: null,
         color: 'var(--theme-color-cyan)',
         categoryKey: null,
         sourceType: 'knob',
@@ -640,156 +885,234 @@ class PromptDjMidi extends LitElement {
 
   private async connectToSession() {
     this.connectionError = true;
-    this.playbackState = 'loading';
+    // While reconnecting, playback keeps whatever state handleConnectionLost left it in.
+    if (!this.connectionManager.isReconnecting) this.playbackState = 'loading';
+    this.discardSession();
+    const generation = this.sessionGeneration;
+    const isCurrent = () => generation === this.sessionGeneration;
     try {
-      this.session = await ai.live.music.connect({
-        model: model,
-        callbacks: {
-          onmessage: async (e: LiveMusicServerMessage) => {
-            if (e.setupComplete) {
-              this.connectionError = false;
-              if (e.setupComplete.sampleRateHertz) {
-                if (typeof e.setupComplete.sampleRateHertz === 'number') {
-                  this.sessionSampleRate = e.setupComplete.sampleRateHertz;
-                  console.log(`Session sample rate set to: ${this.sessionSampleRate} Hz`);
-                }
-              }
-              if (e.setupComplete.channels) {
-                if (typeof e.setupComplete.channels === 'number') {
-                  this.sessionNumChannels = e.setupComplete.channels;
-                  console.log(`Session number of channels set to: ${this.sessionNumChannels}`);
-                }
+      const session = await musicSessionProvider({
+        onmessage: async (e: LiveMusicServerMessage) => {
+          if (!isCurrent()) return;
+          if (e.setupComplete) {
+            this.connectionError = false;
+            if (e.setupComplete.sampleRateHertz) {
+              if (typeof e.setupComplete.sampleRateHertz === 'number') {
+                this.sessionSampleRate = e.setupComplete.sampleRateHertz;
+                console.log(`Session sample rate set to: ${this.sessionSampleRate} Hz`);
               }
-              await this.sendCurrentBpmToSession();
-              if (this.settingsControllerEl && this.session) {
-                this.handleSettingsChanged(
-                    new CustomEvent('settings-changed', {detail: this.settingsControllerEl.config })
-                );
-              }
-            }
-            if (e.filteredPrompt) {
-              this.filteredPrompts = new Set([...this.filteredPrompts, e.filteredPrompt.text])
-              this.requestUpdate('filteredPrompts');
-              this.showToast(e.filteredPrompt.filteredReason);
             }
-            if (e.serverContent && e.serverContent.audioChunks && e.serverContent.audioChunks.length > 0) {
-              const firstChunk: AudioChunk | undefined = e.serverContent.audioChunks[0];
-
-              if (firstChunk && typeof firstChunk.data === 'string' && firstChunk.data.length > 0) {
-                if (this.playbackState === 'paused' || this.playbackState === 'stopped') return;
-
-                try {
-                  const decodedBytes = decode(firstChunk.data);
-                  if (decodedBytes.length === 0) {
-                      console.warn('Decoded audio data is empty. Skipping chunk.');
-                      return;
-                  }
-
-                  const sampleRate = this.sessionSampleRate;
-                  const numChannels = this.sessionNumChannels;
-
-                  const audioBuffer = await decodeAudioData(
-                    decodedBytes,
-                    this.audioContext,
-                    sampleRate,
-                    numChannels,
-                  );
-
-                  if (audioBuffer.length <= 1 && audioBuffer.duration <= (1/sampleRate + 0.0001) ) {
-                     console.warn('decodeAudioData resulted in a minimal/empty buffer. Skipping playback of this chunk.');
-                     return;
-                  }
-
-                  const source = this.audioContext.createBufferSource();
-                  source.buffer = audioBuffer;
-                  source.connect(this.outputNode);
-
-                  if (this.audioContext.state === 'suspended') {
-                     await this.audioContext.resume();
-                  }
-
-                  if (this.nextStartTime === 0) {
-                    this.nextStartTime = this.audioContext.currentTime + this.bufferTime;
-                    setTimeout(() => {
-                      if(this.playbackState === 'loading') this.playbackState = 'playing';
-                    }, this.bufferTime * 1000);
-                  }
-
-                  if (this.nextStartTime < this.audioContext.currentTime) {
-                    console.warn('Audio scheduling fell behind. Resetting nextStartTime.');
-                    this.playbackState = 'loading';
-                    this.nextStartTime = this.audioContext.currentTime + 0.1; 
-                  }
-                  source.start(this.nextStartTime);
-                  this.nextStartTime += audioBuffer.duration;
-
-                } catch (audioProcessingError) {
-                  console.error('Error processing or playing audio chunk:', audioProcessingError);
-                  this.showToast('Error playing audio. Playback might be affected.');
-                }
-              } else if (firstChunk) {
-                 console.warn('Received audio chunk with invalid or empty data property:', firstChunk);
-              } else {
-                 console.warn('Received audioChunks array but the first element is undefined/null.');
+            if (e.setupComplete.channels) {
+              if (typeof e.setupComplete.channels === 'number') {
+                this.sessionNumChannels = e.setupComplete.channels;
+                console.log(`Session number of channels set to: ${this.sessionNumChannels}`);
               }
             }
-          },
-          onerror: (errEvent: Event) => { 
-            let errorMessage = 'Unknown WebSocket error';
-            if (errEvent instanceof ErrorEvent && errEvent.message) {
-                errorMessage = errEvent.message;
-            } else if ((errEvent as any).error && (errEvent as any).error.toString) {
-                errorMessage = (errEvent as any).error.toString();
-            } else if (errEvent.type) {
-                errorMessage = `WebSocket error: ${errEvent.type}`;
-            }
-            console.error('LiveMusicSession WebSocket error:', errEvent, errorMessage);
-            this.connectionError = true;
-            this.playbackState = 'stopped';
-            this.session = undefined; 
-            this.resetAudioPipelineToStopped();
-            if (errorMessage.toLowerCase().includes('service is currently unavailable')) {
-              this.showToast('Music service is temporarily unavailable. Please try again later.');
-            } else if (errorMessage.toLowerCase().includes('failed to fetch')) {
-              this.showToast('Network error. Please check your connection and API Key.');
-            } else {
-              this.showToast('Connection error. Check console, API key/network, then retry audio.');
-            }
-          },
-          onclose: (e: CloseEvent) => {
-            console.warn('LiveMusicSession WebSocket closed:', e);
-            this.connectionError = true;
-            this.session = undefined; 
-            if (this.playbackState !== 'stopped') {
-              this.playbackState = 'stopped';
-              this.resetAudioPipelineToStopped();
-            }
-            if (e.code !== 1000 && e.code !== 1005) { 
-                this.showToast('Connection closed unexpectedly. Please restart audio.');
-            } else if (this.playbackState !== 'stopped' && this.playPauseButton && this.playPauseButton.playbackState !== 'stopped'){
-                this.showToast('Connection closed. Please restart audio.');
+            const wasReconnecting = this.connectionManager.isReconnecting;
+            await this.replaySessionState();
+            this.connectionManager.connected();
+            if (wasReconnecting && this.resumeAfterReconnect) {
+              this.resumeAfterReconnect = false;
+              this.play();
             }
-          },
+          }
+          if (e.filteredPrompt) {
+            this.filteredPrompts = new Set([...this.filteredPrompts, e.filteredPrompt.text])
+            this.requestUpdate('filteredPrompts');
+            this.handleSessionError(
+              new SessionError('filtered', e.filteredPrompt.filteredReason ?? `"${e.filteredPrompt.text}" was filtered.`),
+              'Prompt filtered',
+            );
+          }
+          // One message can carry several chunks; they are consecutive, so play them in order.
+          for (const chunk of e.serverContent?.audioChunks ?? []) {
+            this.enqueueAudioChunk(chunk);
+          }
         },
-      }) as ExtendedLiveMusicSession;
+        onerror: (errEvent: Event) => { 
+          if (!isCurrent()) return;
+          this.handleSessionError(errEvent, 'LiveMusicSession WebSocket error');
+        },
+        onclose: (e: CloseEvent) => {
+          console.warn('LiveMusicSession WebSocket closed:', e);
+          // The app closed it on the way out or replaced it; nothing to reconnect.
+          if (!this.isConnected || !isCurrent()) return;
+          this.handleSessionError(e, 'LiveMusicSession WebSocket closed');
+        },
+      });
+      if (!isCurrent()) {
+        session.close();
+        return;
+      }
+      this.session = session;
       this.connectionError = false;
-    } catch (error: any) {
-      console.error("Error calling ai.live.music.connect:", error);
+    } catch (error) {
+      console.error("Error connecting to the music session:", error);
       this.connectionError = true;
-      this.playbackState = 'stopped';
-      this.session = undefined;
       this.resetAudioPipelineToStopped();
-      let toastMessageText = 'Failed to initiate connection. Check API Key/console.';
-      if (error.message && error.message.toLowerCase().includes('api key not valid')) {
-        toastMessageText = 'API Key not valid. Please check your API_KEY environment variable.';
-      } else if (error.message && error.message.toLowerCase().includes('quota')) {
-        toastMessageText = 'Quota exceeded. Please check your API usage.';
+      // Callers report it through handleSessionError; failed retries show up in the connection status.
+      if (!this.connectionManager.isReconnecting) this.playbackState = 'stopped';
+      throw error;
+    }
+  }
+
+  private countChunk(key: Exclude<keyof AudioChunkStats, 'lastIssue'>, issue: string | null = null) {
+    this.audioChunkStats = {
+      ...this.audioChunkStats,
+      [key]: this.audioChunkStats[key] + 1,
+      lastIssue: issue ?? this.audioChunkStats.lastIssue,
+    };
+    if (issue) console.warn(`Audio chunk: ${issue}`);
+  }
+
+  /** Returns why the chunk's declared format doesn't match the session's, or null if it fits. */
+  private checkChunkFormat(chunk: AudioChunk): string | null {
+    if (!chunk.mimeType) return null;
+    const format = parseAudioMimeType(chunk.mimeType);
+    if (!PCM_MIME_TYPES.includes(format.type)) {
+      return `unsupported mime type ${chunk.mimeType}`;
+    }
+    if (format.sampleRate !== null && format.sampleRate !== this.sessionSampleRate) {
+      return `sample rate ${format.sampleRate} Hz, expected ${this.sessionSampleRate} Hz`;
+    }
+    if (format.channels !== null && format.channels !== this.sessionNumChannels) {
+      return `${format.channels} channels, expected ${this.sessionNumChannels}`;
+    }
+    return null;
+  }
+
+  /**
+   * Handles chunks one at a time, in arrival order. Decoding awaits, so
+   * without the chain a later message's chunk could be queued first.
+   */
+  private enqueueAudioChunk(chunk: AudioChunk) {
+    this.audioChunkQueue = this.audioChunkQueue.then(() => this.playAudioChunk(chunk));
+  }
+
+  /** Validates and decodes one audio chunk and queues it in the jitter buffer. */
+  private async playAudioChunk(chunk: AudioChunk) {
+    this.countChunk('received');
+    if (this.playbackState === 'paused' || this.playbackState === 'stopped') {
+      this.countChunk('dropped');
+      return;
+    }
+    if (typeof chunk.data !== 'string' || chunk.data.length === 0) {
+      this.countChunk('malformed', 'chunk has no data');
+      return;
+    }
+    const formatIssue = this.checkChunkFormat(chunk);
+    if (formatIssue) {
+      this.countChunk('formatMismatches', formatIssue);
+      return;
+    }
+
+    try {
+      const decodedBytes = decode(chunk.data);
+      const sampleRate = this.sessionSampleRate;
+      const numChannels = this.sessionNumChannels;
+      if (decodedBytes.length === 0 || decodedBytes.length % (2 * numChannels) !== 0) {
+        this.countChunk('malformed', `${decodedBytes.length} bytes is not a whole number of 16-bit frames`);
+        return;
+      }
+
+      const audioBuffer = await decodeAudioData(
+        decodedBytes,
+        this.audioContext,
+        sampleRate,
+        numChannels,
+      );
+      if (!this.jitterBuffer) {
+        this.countChunk('dropped', 'playback worklet not loaded');
+        return;
+      }
+      this.jitterBuffer.push(audioBuffer);
+      this.countChunk('queued');
+
+      if (this.audioContext.state === 'suspended') {
+         await this.audioContext.resume();
+      }
+    } catch (audioProcessingError) {
+      this.countChunk('malformed', 'decoding failed');
+      this.handleSessionError(
+        new SessionError('audio-decode', 'Could not decode an audio chunk', audioProcessingError),
+        'Error processing or playing audio chunk',
+      );
+    }
+  }
+
+  /** Sends prompts, BPM and settings to a fresh session so it picks up where the last one left off. */
+  private async replaySessionState() {
+    const promptsToSend = this.getPromptsToSend();
+    if (this.session && promptsToSend.length > 0) {
+      try {
+        await this.session.setWeightedPrompts({ weightedPrompts: promptsToSend });
+      } catch (e) {
+        this.handleSessionError(e, 'Error replaying prompts');
       }
-      this.showToast(toastMessageText);
-      throw error; 
+    }
+    await this.sendCurrentBpmToSession();
+    if (this.settingsControllerEl && this.session) {
+      this.handleSettingsChanged(
+          new CustomEvent('settings-changed', {detail: this.settingsControllerEl.config })
+      );
     }
   }
 
+  /**
+   * The one place session and audio errors are acted on: lost connections
+   * go to the connection manager, fatal ones stop playback, and the rest
+   * are shown to the user. Returns the action taken.
+   */
+  private handleSessionError(error: unknown, context: string): ErrorAction {
+    const sessionError = classifySessionError(error);
+    const { action, message } = decideErrorHandling(sessionError, context);
+    console.warn(`${context} (${sessionError.kind}):`, sessionError.cause ?? sessionError);
+    if (action === 'reconnect') {
+      this.handleConnectionLost();
+      return action;
+    }
+    if (action === 'stop') {
+      this.resumeAfterReconnect = false;
+      this.connectionError = true;
+      this.discardSession();
+      this.playbackState = 'stopped';
+      this.resetAudioPipelineToStopped();
+    }
+    this.showToast(message);
+    return action;
+  }
+
+  /** Drops the dead session and hands over to the connection manager, remembering whether to resume. */
+  private handleConnectionLost() {
+    const wasPlaying = this.playbackState === 'playing' || this.playbackState === 'loading';
+    this.resumeAfterReconnect = wasPlaying;
+    this.connectionError = true;
+    this.discardSession();
+    this.resetAudioPipelineToStopped();
+    if (wasPlaying) this.playbackState = 'loading';
+    this.connectionManager.connectionLost();
+  }
+
+  /** Closes the current session, if any, and stops listening to its callbacks. */
+  private discardSession() {
+    this.sessionGeneration++;
+    if (!this.session) return;
+    try {
+      this.session.close();
+    } catch (e) {
+      console.warn("Error closing superseded session:", e);
+    }
+    this.session = undefined;
+  }
+
+  private handleConnectionStatusChanged = (e: Event) => {
+    this.connectionStatus = (e as CustomEvent<ConnectionStatus>).detail;
+    if (this.connectionStatus.state === 'failed') {
+      this.resumeAfterReconnect = false;
+      if (this.playbackState === 'loading') this.playbackState = 'stopped';
+    }
+  };
+
   private resetAudioPipelineToStopped() {
     if (this.audioContext.state === 'running') {
         try {
@@ -801,19 +1124,46 @@ class PromptDjMidi extends LitElement {
     } else {
         this.outputNode.gain.value = 0;
     }
-    this.nextStartTime = 0;
+    this.jitterBuffer?.reset();
   }
 
 
+  /** The deck shown in the knob grid and edited by the controls. */
+  private getVisiblePrompts() {
+    return this.editingDeck === 'B' ? this.deckBPrompts : this.prompts;
+  }
+
+  /** Both decks scaled by the crossfader gains; prompts sharing a text are merged. */
+  private getCrossfadedPrompts(): Prompt[] {
+    const [gainA, gainB] = crossfaderGains(this.crossfaderPosition, this.crossfaderCurve);
+    const byText = new Map<string, Prompt>();
+    const add = (prompt: Prompt, gain: number) => {
+      const existing = byText.get(prompt.text);
+      if (existing) {
+        existing.weight += prompt.weight * gain;
+      } else {
+        byText.set(prompt.text, { ...prompt, weight: prompt.weight * gain });
+      }
+    };
+    for (const prompt of this.prompts.values()) {
+      add(prompt, prompt.promptId === BPM_PROMPT_ID ? 1 : gainA);
+    }
+    for (const prompt of this.deckBPrompts.values()) {
+      add({ ...prompt, promptId: `deck-b-${prompt.promptId}` }, gainB);
+    }
+    return Array.from(byText.values());
+  }
+
   private getPromptsToSend() {
-    return Array.from(this.prompts.values())
+    const deckPrompts = this.crossfaderEnabled ? this.getCrossfadedPrompts() : Array.from(this.prompts.values());
+    return [...deckPrompts, ...this.morphOutgoingPrompts]
       .filter((p) => {
         return !this.filteredPrompts.has(p.text) && p.weight !== 0;
       })
   }
 
   private getActivePromptsContext = (): Array<{promptId: string, text: string, categoryKey: string | null, weight: number, sourceType: 'knob' | 'button'}> => {
-    return Array.from(this.prompts.values()).filter(p => {
+    return Array.from(this.getVisiblePrompts().values()).filter(p => {
         if (p.promptId === BPM_PROMPT_ID) return false; 
         const isActiveToggle = p.sourceType === 'button' && p.weight === ON_WEIGHT_TOGGLE;
         const isActiveKnob = p.sourceType === 'knob' && p.weight > 0.1; 
@@ -829,6 +1179,8 @@ class PromptDjMidi extends LitElement {
 
 
   private setSessionPrompts = throttle(async () => {
+    // The current prompts are replayed once the session is back.
+    if (!this.session && this.connectionManager.isReconnecting) return;
     if (!this.session) {
       this.showToast('Cannot set prompts: no active session.');
       if (this.playbackState !== 'stopped') this.pause();
@@ -846,21 +1198,13 @@ class PromptDjMidi extends LitElement {
       await this.session.setWeightedPrompts({
         weightedPrompts: promptsToSend,
       });
-    } catch (e: any) {
-      console.warn("Error setting weighted prompts:", e);
-      if (e.message && (e.message.includes('session is closed') || e.message.includes('WebSocket is already in CLOSING or CLOSED state'))) {
-        this.showToast('Session closed. Please restart audio.');
-        this.playbackState = 'stopped';
-        this.session = undefined;
-        this.resetAudioPipelineToStopped();
-      } else {
-        this.showToast(`Error setting prompts: ${e.message}`);
-      }
-      if (this.playbackState !== 'stopped' && this.playbackState !== 'paused') {
+    } catch (e) {
+      const action = this.handleSessionError(e, 'Error setting prompts');
+      if (action === 'toast' && (this.playbackState === 'playing' || this.playbackState === 'loading')) {
           this.pause();
       }
     }
-  }, 200);
+  }, SESSION_PROMPTS_THROTTLE_MS);
 
   private updateAudioLevel() {
     this.audioLevelRafId = requestAnimationFrame(this.updateAudioLevel);
@@ -871,12 +1215,37 @@ class PromptDjMidi extends LitElement {
     this.dispatchEvent(
       new CustomEvent('prompts-changed', { detail: new Map(this.prompts), bubbles: true, composed: true }),
     );
+    this.midiFeedback.update(this.getVisiblePrompts(), this.filteredPrompts);
     return this.setSessionPrompts();
   }
 
+  override updated(changedProperties: Map<string | number | symbol, unknown>) {
+    if (changedProperties.has('playbackState')) {
+      this.midiFeedback.updatePlaybackState(this.playbackState);
+      if (this.playbackState === 'paused' || this.playbackState === 'stopped') {
+        this.midiClockMaster.stop();
+      }
+    }
+    if (changedProperties.has('currentBpm')) {
+      this.midiClockMaster.bpm = this.currentBpm;
+    }
+    if (changedProperties.has('filteredPrompts')) {
+      this.midiFeedback.update(this.getVisiblePrompts(), this.filteredPrompts);
+    }
+  }
+
+  /** Re-sends every LED state, e.g. after the feedback device (re)connects. */
+  private resyncMidiFeedback() {
+    this.midiFeedback.reset();
+    this.midiFeedback.update(this.getVisiblePrompts(), this.filteredPrompts);
+    this.midiFeedback.updatePlaybackState(this.playbackState);
+  }
+
   private handlePromptChanged(e: CustomEvent<Prompt>) {
-    const { promptId, text, weight, cc, categoryKey, sourceType } = e.detail;
-    const prompt = this.prompts.get(promptId);
+    this.cancelMorph();
+    const { promptId, text, weight, cc, note, channel, deviceId, takeover, encoder, hiRes, categoryKey, sourceType } = e.detail;
+    const deck = this.getVisiblePrompts();
+    const prompt = deck.get(promptId);
 
     if (!prompt) {
       console.error('prompt not found', promptId);
@@ -887,18 +1256,46 @@ class PromptDjMidi extends LitElement {
         this.filteredPrompts.delete(prompt.text);
     }
 
+    const historyLabel = prompt.text !== text ? `Prompt "${text}"`
+      : prompt.weight !== weight ? `${text} ${weight.toFixed(2)}`
+      : 'MIDI mapping';
+    const historyKey = prompt.text !== text ? `text:${promptId}` : `weight:${promptId}`;
+
     prompt.text = text;
     prompt.weight = weight;
     if (cc !== undefined && cc !== -1) {
         prompt.cc = cc;
+        prompt.hiRes = hiRes;
+    }
+    if (note !== undefined && note !== -1) {
+        prompt.note = note;
+    }
+    if (channel !== undefined) {
+        prompt.channel = channel;
+    }
+    if (deviceId !== undefined) {
+        prompt.deviceId = deviceId;
+    }
+    if (takeover !== undefined) {
+        prompt.takeover = takeover;
+    }
+    if (encoder !== undefined) {
+        prompt.encoder = encoder;
     }
     prompt.categoryKey = categoryKey !== undefined ? categoryKey : prompt.categoryKey;
     prompt.sourceType = sourceType !== undefined ? sourceType : prompt.sourceType;
 
 
-    const newPrompts = new Map(this.prompts);
+    const newPrompts = new Map(deck);
     newPrompts.set(promptId, prompt);
-    this.prompts = newPrompts;
+    if (this.editingDeck === 'B') {
+      this.deckBPrompts = newPrompts;
+      this.copyMappingToDeck(prompt, this.prompts);
+    } else {
+      this.prompts = newPrompts;
+      this.copyMappingToDeck(prompt, this.deckBPrompts);
+    }
+    this.recordHistory(historyLabel, historyKey);
     this.requestUpdate();
     this.dispatchPromptsChange();
   }
@@ -922,18 +1319,17 @@ class PromptDjMidi extends LitElement {
 
 
   private pause() {
+    this.resumeAfterReconnect = false;
+    // Update the state first, so a lost session found here reconnects without resuming.
+    this.playbackState = 'paused';
+    this.resetAudioPipelineToStopped();
     if (this.session) {
       try {
         this.session.pause();
       } catch (e) {
-        console.warn("Error calling session.pause():", e);
-        if (e instanceof Error && (e.message.includes("session is closed") || e.message.includes("WebSocket is already in CLOSING or CLOSED state"))) {
-            this.session = undefined; 
-        }
+        this.handleSessionError(e, 'Error pausing');
       }
     }
-    this.playbackState = 'paused';
-    this.resetAudioPipelineToStopped();
   }
 
   private play() {
@@ -958,11 +1354,12 @@ class PromptDjMidi extends LitElement {
             this.outputNode.gain.setValueAtTime(this.outputNode.gain.value, this.audioContext.currentTime);
             this.outputNode.gain.linearRampToValueAtTime(1, this.audioContext.currentTime + 0.1);
         } catch (e) {
-            console.warn("Error calling session.play():", e);
-            this.showToast("Error trying to play. Session might be unstable.");
-            this.playbackState = 'stopped';
-            this.session = undefined; 
-            this.resetAudioPipelineToStopped();
+            // Marked as loading so a reconnect picks playback up again.
+            this.playbackState = 'loading';
+            if (this.handleSessionError(e, 'Error trying to play') === 'toast') {
+                this.playbackState = 'stopped';
+                this.resetAudioPipelineToStopped();
+            }
             if (this.playPauseButton) this.playPauseButton.requestUpdate();
         }
     }).catch(err => {
@@ -974,19 +1371,16 @@ class PromptDjMidi extends LitElement {
   }
 
   private stop() { 
+    this.resumeAfterReconnect = false;
+    this.playbackState = 'stopped';
+    this.resetAudioPipelineToStopped();
     if (this.session) {
       try {
         this.session.stop();
       } catch (e) {
-        console.warn("Error calling session.stop():", e);
-         if (e instanceof Error && (e.message.includes("session is closed") || e.message.includes("WebSocket is already in CLOSING or CLOSED state"))) {
-         } else {
-            console.error("Unexpected error during session.stop():", e);
-         }
+        this.handleSessionError(e, 'Error stopping');
       }
     }
-    this.playbackState = 'stopped';
-    this.resetAudioPipelineToStopped();
     if (this.playPauseButton) this.playPauseButton.requestUpdate();
   }
 
@@ -996,26 +1390,11 @@ class PromptDjMidi extends LitElement {
       this.pause();
     } else if (this.playbackState === 'paused' || this.playbackState === 'stopped') {
       if (this.connectionError || !this.session) {
-        this.showToast('Reconnecting...');
+        // Playback starts once the session is set up again; see connectToSession.
+        this.resumeAfterReconnect = true;
         this.playbackState = 'loading'; 
         if (this.playPauseButton) this.playPauseButton.requestUpdate();
-        try {
-            await this.connectToSession();
-            if (!this.connectionError && this.session) {
-                await this.setSessionPrompts(); 
-                await this.sendCurrentBpmToSession(); 
-                if (this.settingsControllerEl) {
-                    this.handleSettingsChanged(new CustomEvent('settings-changed', { detail: this.settingsControllerEl.config }));
-                }
-                this.play(); 
-            } else {
-                this.playbackState = 'stopped'; 
-                if (this.playPauseButton) this.playPauseButton.requestUpdate();
-            }
-        } catch (e) {
-             this.playbackState = 'stopped';
-             if (this.playPauseButton) this.playPauseButton.requestUpdate();
-        }
+        this.connectionManager.retryNow();
       } else {
         await this.setSessionPrompts(); 
         await this.sendCurrentBpmToSession(); 
@@ -1029,32 +1408,33 @@ class PromptDjMidi extends LitElement {
 
   private async handleBpmChange(e: CustomEvent<{ bpm: number }>) {
     this.currentBpm = parseFloat(e.detail.bpm.toFixed(1));
+    this.recordHistory(`BPM ${this.currentBpm.toFixed(1)}`, 'bpm');
     this.updateBpmSpecificPrompt(); 
     await this.throttledSendBpmToSession(); 
   }
 
   private throttledSendBpmToSession = throttle(async () => {
     if (this.session && this.playbackState !== 'stopped' && this.currentBpm !== null) {
-        if (typeof (this.session as ExtendedLiveMusicSession).setBpm === 'function') {
+        if (typeof this.session.setBpm === 'function') {
             try {
-                await (this.session as ExtendedLiveMusicSession).setBpm({ bpm: Math.round(this.currentBpm) });
+                await this.session.setBpm({ bpm: Math.round(this.currentBpm) });
                 console.log(`Dedicated BPM updated to ${Math.round(this.currentBpm)}`);
             } catch (error) {
-                console.error("Error setting dedicated BPM on session:", error);
-                this.showToast("Error updating dedicated BPM.");
-                 if (error instanceof Error && (error.message.includes('session is closed') || error.message.includes('unavailable'))) {
-                    this.connectionError = true;
-                    this.playbackState = 'stopped';
-                    this.session = undefined;
-                    this.showToast('Session lost while setting BPM. Please restart audio.');
-                    if (this.playPauseButton) this.playPauseButton.requestUpdate();
-                }
+                this.handleSessionError(error, 'Error updating BPM');
             }
         } else {
             console.warn("setBpm method not available on session object. BPM UI change only for dedicated endpoint.");
         }
     }
-  }, 300);
+  }, BPM_SEND_THROTTLE_MS);
+
+  /** A ramp's last steps can fall inside the throttle windows; send the final BPM once they have passed. */
+  private handleBpmRampCompleted() {
+    window.setTimeout(() => {
+      this.throttledSendBpmToSession();
+      this.setSessionPrompts();
+    }, BPM_SEND_THROTTLE_MS);
+  }
 
 
   private async generateImageForSlideshow(): Promise<string | null> {
@@ -1220,6 +1600,11 @@ class PromptDjMidi extends LitElement {
 
     console.log("Generated Image Prompt:", imagePromptText);
 
+    if (!ai) {
+        console.warn("No API key set. Skipping slideshow image generation.");
+        return null;
+    }
+
     try {
         const response = await ai.models.generateImages({
             model: 'imagen-3.0-generate-002',
@@ -1241,24 +1626,548 @@ class PromptDjMidi extends LitElement {
 
   private async toggleShowMidi() {
     this.showMidi = !this.showMidi;
-    if (!this.showMidi) return;
+    if (!this.showMidi) {
+      this.midiLearn.cancelLearn();
+      return;
+    }
     const inputIds = await this.midiDispatcher.getMidiAccess();
     this.midiInputIds = inputIds;
-    this.activeMidiInputId = this.midiDispatcher.activeMidiInputId;
+    this.activeMidiInputIds = Array.from(this.midiDispatcher.activeMidiInputIds);
+    this.midiOutputIds = this.midiDispatcher.getOutputIds();
+    this.autoSelectMappingProfile(inputIds);
+  }
+
+  private handleMidiClockFollowChange(e: CustomEvent<boolean>) {
+    this.setFollowMidiClock(e.detail);
+  }
+
+  private setFollowMidiClock(follow: boolean) {
+    this.followMidiClock = follow;
+    if (follow) {
+      this.midiClockFollower.start();
+      this.midiClockFollower.addEventListener('tempo-changed', this.handleExternalTempo);
+      this.midiDispatcher.addEventListener('transport', this.handleExternalTransport);
+    } else {
+      this.midiClockFollower.stop();
+      this.midiClockFollower.removeEventListener('tempo-changed', this.handleExternalTempo);
+      this.midiDispatcher.removeEventListener('transport', this.handleExternalTransport);
+    }
   }
 
-  private handleMidiInputChange(event: Event) {
-    const selectElement = event.target as HTMLSelectElement;
-    const newMidiId = selectElement.value;
-    this.activeMidiInputId = newMidiId;
-    this.midiDispatcher.activeMidiInputId = newMidiId;
+  private handleMidiClockOutputChange(e: CustomEvent<string | null>) {
+    this.midiClockOutputId = e.detail;
+    this.midiClockMaster.setOutput(e.detail);
+    // Join a set that is already playing instead of waiting for the next start.
+    if (e.detail !== null && this.playbackState === 'playing') {
+      this.midiClockMaster.start(this.audioContext.currentTime + 0.05);
+    }
+  }
+
+  private handleExternalTempo = (e: Event) => {
+    const { bpm } = (e as CustomEvent<{ bpm: number }>).detail;
+    this.bpmControllerEl?.cancelRamp();
+    this.handleBpmChange(new CustomEvent('bpm-changed', { detail: { bpm: Math.max(this.minBpm, Math.min(bpm, this.maxBpm)) } }));
+  };
+
+  private handleExternalTransport = (e: Event) => {
+    const { command } = (e as CustomEvent<MidiTransportMessage>).detail;
+    const isRunning = this.playbackState === 'playing' || this.playbackState === 'loading';
+    if (command === 'stop') {
+      if (isRunning) this.pause();
+    } else if (!isRunning) {
+      // Goes through the play button path so a dropped session is reconnected first.
+      this.handlePlayPause();
+    }
+  };
+
+  private captureScene(id: string, name: string, trigger: SceneTrigger | null, createdAt: number): Scene {
+    return {
+      id,
+      name,
+      prompts: Array.from(this.prompts.values())
+        .filter(p => p.promptId !== BPM_PROMPT_ID)
+        .map(p => ({ ...p })),
+      bpm: this.currentBpm,
+      config: { ...(this.settingsControllerEl?.config ?? {}) },
+      trigger,
+      createdAt,
+    };
+  }
+
+  private async saveScene(scene: Scene) {
+    try {
+      await this.sceneStore.put(scene);
+    } catch (e) {
+      console.error('Failed to save scene:', e);
+      this.showToast('Could not save scene.');
+      return;
+    }
+    const index = this.scenes.findIndex(s => s.id === scene.id);
+    this.scenes = index === -1
+      ? [...this.scenes, scene]
+      : this.scenes.map(s => (s.id === scene.id ? scene : s));
+  }
+
+  private async handleSceneSave(e: CustomEvent<string>) {
+    const scene = this.captureScene(crypto.randomUUID(), e.detail, null, Date.now());
+    await this.saveScene(scene);
+    this.activeSceneId = scene.id;
+    this.showToast(`Scene "${scene.name}" saved`);
+  }
+
+  private async handleSceneOverwrite(e: CustomEvent<string>) {
+    const existing = this.scenes.find(s => s.id === e.detail);
+    if (!existing) return;
+    await this.saveScene(this.captureScene(existing.id, existing.name, existing.trigger, existing.createdAt));
+    this.activeSceneId = existing.id;
+    this.showToast(`Scene "${existing.name}" updated`);
+  }
+
+  private async handleSceneDelete(e: CustomEvent<string>) {
+    try {
+      await this.sceneStore.delete(e.detail);
+    } catch (err) {
+      console.error('Failed to delete scene:', err);
+      this.showToast('Could not delete scene.');
+      return;
+    }
+    this.scenes = this.scenes.filter(s => s.id !== e.detail);
+    if (this.activeSceneId === e.detail) this.activeSceneId = null;
+  }
+
+  private handleSceneRecallEvent(e: CustomEvent<string>) {
+    const scene = this.scenes.find(s => s.id === e.detail);
+    if (scene) this.recallScene(scene);
+  }
+
+  private recallScene(scene: Scene) {
+    this.cancelMorph();
+    if (this.sceneMorphAmount > 0) {
+      this.morphToScene(scene);
+    } else {
+      this.applyScene(scene);
+      this.recordHistory(`Recall scene "${scene.name}"`);
+      this.showToast(`Scene "${scene.name}" recalled`);
+    }
+  }
+
+  /** Restores a scene's texts, weights, BPM and settings; MIDI mappings stay as they are. */
+  private applyScene(scene: Scene) {
+    this.suppressHistory = true;
+    const scenePrompts = new Map(scene.prompts.map(p => [p.promptId, p]));
+    const recalled = new Map<string, Prompt>();
+    for (const [promptId, current] of this.prompts) {
+      const scenePrompt = scenePrompts.get(promptId);
+      recalled.set(promptId, scenePrompt
+        ? { ...current, text: scenePrompt.text, weight: scenePrompt.weight, color: scenePrompt.color, categoryKey: scenePrompt.categoryKey }
+        : current);
+    }
+    this.prompts = recalled;
+    this.filteredPrompts = new Set<string>();
+    this.activeSceneId = scene.id;
+
+    this.bpmControllerEl?.cancelRamp();
+    this.currentBpm = scene.bpm;
+    this.updateBpmSpecificPrompt();
+    this.throttledSendBpmToSession();
+    this.settingsControllerEl?.applyConfig(scene.config);
+    this.resyncMidiFeedback();
+    this.suppressHistory = false;
+  }
+
+  /**
+   * Glides weights and numeric settings to a scene over the configured
+   * time or bars, cross-fading prompts whose text changes.
+   */
+  private morphToScene(scene: Scene) {
+    const durationMs = rampDurationSeconds(this.sceneMorphAmount, this.sceneMorphUnit, this.currentBpm, this.currentBpm) * 1000;
+    const fromPrompts = new Map(this.prompts);
+    const fromConfig = { ...(this.settingsControllerEl?.config ?? {}) };
+    const startedAt = performance.now();
+    this.activeSceneId = scene.id;
+    this.morphProgress = 0;
+    this.morphTimer = window.setInterval(() => {
+      const progress = Math.min(1, (performance.now() - startedAt) / durationMs);
+      const { prompts, outgoing } = morphPrompts(fromPrompts, scene, progress);
+      this.prompts = prompts;
+      this.morphOutgoingPrompts = outgoing;
+      this.morphProgress = progress;
+      this.dispatchPromptsChange();
+      if (progress >= 1) {
+        this.cancelMorph();
+        this.applyScene(scene);
+        this.recordHistory(`Morph to scene "${scene.name}"`);
+        // The session throttle drops trailing calls; push the final state once it has passed.
+        window.setTimeout(() => this.setSessionPrompts(), SESSION_PROMPTS_THROTTLE_MS);
+        this.showToast(`Morphed to scene "${scene.name}"`);
+      } else {
+        this.throttledApplyMorphConfig(morphConfig(fromConfig, scene.config, progress));
+      }
+    }, MORPH_STEP_MS);
+  }
+
+  private throttledApplyMorphConfig = throttle((config: LiveMusicGenerationConfig) => {
+    this.suppressHistory = true;
+    this.settingsControllerEl?.applyConfig(config);
+    this.suppressHistory = false;
+  }, MORPH_CONFIG_THROTTLE_MS);
+
+  /** Stops a running morph where it is, dropping the fading-out texts. */
+  private cancelMorph() {
+    if (this.morphTimer === null) return;
+    window.clearInterval(this.morphTimer);
+    this.morphTimer = null;
+    this.morphProgress = null;
+    if (this.morphOutgoingPrompts.length > 0) {
+      this.morphOutgoingPrompts = [];
+      this.dispatchPromptsChange();
+    }
+  }
+
+  private captureSnapshot(): HistorySnapshot {
+    return {
+      prompts: Array.from(this.prompts.values())
+        .filter(p => p.promptId !== BPM_PROMPT_ID)
+        .map(p => ({ ...p })),
+      deckBPrompts: Array.from(this.deckBPrompts.values()).map(p => ({ ...p })),
+      bpm: this.currentBpm,
+      config: { ...(this.settingsControllerEl?.config ?? {}) },
+    };
+  }
+
+  private recordHistory(label: string, coalesceKey: string | null = null) {
+    if (this.suppressHistory) return;
+    this.history.record(label, this.captureSnapshot(), coalesceKey);
+  }
+
+  private restoreSnapshot(snapshot: HistorySnapshot) {
+    this.cancelMorph();
+    this.suppressHistory = true;
+    this.prompts = new Map(snapshot.prompts.map(p => [p.promptId, { ...p }]));
+    this.deckBPrompts = new Map(snapshot.deckBPrompts.map(p => [p.promptId, { ...p }]));
+    this.filteredPrompts = new Set<string>();
+    this.bpmControllerEl?.cancelRamp();
+    this.currentBpm = snapshot.bpm;
+    this.updateBpmSpecificPrompt();
+    this.throttledSendBpmToSession();
+    this.settingsControllerEl?.applyConfig(snapshot.config);
+    this.resyncMidiFeedback();
+    this.suppressHistory = false;
+  }
+
+  private undo() {
+    const snapshot = this.history.undo();
+    if (snapshot) this.restoreSnapshot(snapshot);
+  }
+
+  private redo() {
+    const snapshot = this.history.redo();
+    if (snapshot) this.restoreSnapshot(snapshot);
+  }
+
+  private handleHistoryJump(e: CustomEvent<number>) {
+    const snapshot = this.history.jumpTo(e.detail);
+    if (snapshot) this.restoreSnapshot(snapshot);
+  }
+
+  private handleHistoryKeyDown = (e: KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+    // Text fields keep their own undo for typing.
+    const target = e.composedPath()[0];
+    if (target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA'].includes(target.tagName))) {
+      return;
+    }
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      this.undo();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+      e.preventDefault();
+      this.redo();
+    }
+  };
+
+  /** Hardware controls the visible deck, so both decks share one MIDI mapping. */
+  private copyMappingToDeck(source: Prompt, deck: Map<string, Prompt>) {
+    const target = deck.get(source.promptId);
+    if (!target) return;
+    const { cc, note, channel, deviceId, takeover, encoder, hiRes } = source;
+    deck.set(source.promptId, { ...target, cc, note, channel, deviceId, takeover, encoder, hiRes });
+  }
+
+  private toggleCrossfader() {
+    this.crossfaderEnabled = !this.crossfaderEnabled;
+    if (this.crossfaderEnabled && this.deckBPrompts.size === 0) {
+      // Deck B starts as a copy of deck A, ready to be reworked.
+      for (const [promptId, prompt] of this.prompts) {
+        if (promptId !== BPM_PROMPT_ID) this.deckBPrompts.set(promptId, { ...prompt });
+      }
+    }
+    if (!this.crossfaderEnabled) this.editingDeck = 'A';
+    this.dispatchPromptsChange();
+    this.resyncMidiFeedback();
+  }
+
+  private handleDeckSelected(e: CustomEvent<Deck>) {
+    this.editingDeck = e.detail;
+    this.resyncMidiFeedback();
+  }
+
+  private handleCrossfaderChanged(e: CustomEvent<number>) {
+    this.crossfaderPosition = e.detail;
+    this.setSessionPrompts();
+  }
+
+  private handleCrossfaderCurveChanged(e: CustomEvent<CrossfaderCurve>) {
+    this.crossfaderCurve = e.detail;
+    this.setSessionPrompts();
+  }
+
+  private handleSceneMorphChanged(e: CustomEvent<{ amount: number; unit: RampUnit }>) {
+    this.sceneMorphAmount = e.detail.amount;
+    this.sceneMorphUnit = e.detail.unit;
+  }
+
+  private handleSceneLearn(e: CustomEvent<string>) {
+    this.learningSceneId = this.learningSceneId === e.detail ? null : e.detail;
+  }
+
+  private async handleSceneClearTrigger(e: CustomEvent<string>) {
+    const scene = this.scenes.find(s => s.id === e.detail);
+    if (scene?.trigger) await this.saveScene({ ...scene, trigger: null });
+  }
+
+  private handleSceneNote = (e: Event) => {
+    const { channel, note, deviceId } = (e as CustomEvent<NoteMessage>).detail;
+    this.handleSceneTrigger({ type: 'note', channel, number: note, deviceId });
+  };
+
+  private handleSceneProgramChange = (e: Event) => {
+    const { channel, program, deviceId } = (e as CustomEvent<ProgramChangeMessage>).detail;
+    this.handleSceneTrigger({ type: 'program', channel, number: program, deviceId });
+  };
+
+  private handleSceneTrigger(source: SceneTrigger & { deviceId: string }) {
+    if (this.learningSceneId !== null) {
+      const scene = this.scenes.find(s => s.id === this.learningSceneId);
+      this.learningSceneId = null;
+      if (scene) {
+        const deviceId = this.midiDispatcher.lockLearnToDevice ? source.deviceId : null;
+        this.saveScene({ ...scene, trigger: { ...source, deviceId } });
+      }
+      return;
+    }
+    const scene = this.scenes.find(({ trigger }) =>
+      trigger !== null &&
+      trigger.type === source.type &&
+      trigger.channel === source.channel &&
+      trigger.number === source.number &&
+      (trigger.deviceId === null || trigger.deviceId === source.deviceId));
+    if (scene) this.recallScene(scene);
+  }
+
+  private autoSelectMappingProfile(inputIds: string[]) {
+    for (const id of inputIds) {
+      if (this.profileCheckedDeviceIds.has(id)) continue;
+      this.profileCheckedDeviceIds.add(id);
+      const deviceName = this.midiDispatcher.getDeviceName(id);
+      const profile = deviceName ? findProfileForDevice(this.mappingProfiles, deviceName) : undefined;
+      if (profile && profile.name !== this.activeMappingProfileName) {
+        this.loadMappingProfile(profile);
+        this.showToast(`Loaded MIDI mapping "${profile.name}" for ${deviceName}`);
+        return;
+      }
+    }
+  }
+
+  private loadMappingProfile(profile: MappingProfile) {
+    this.prompts = applyMappingProfile(profile, this.prompts);
+    this.deckBPrompts = applyMappingProfile(profile, this.deckBPrompts);
+    this.midiLearn.setBindings(profile.bindings);
+    this.activeMappingProfileName = profile.name;
+    this.dispatchPromptsChange();
+    this.resyncMidiFeedback();
+    this.requestUpdate();
+  }
+
+  private handleMappingProfileSelected(e: CustomEvent<string | null>) {
+    const profile = this.mappingProfiles.find(p => p.name === e.detail);
+    if (profile) {
+      this.loadMappingProfile(profile);
+    } else {
+      this.activeMappingProfileName = null;
+    }
+  }
+
+  private handleMappingProfileSaved(e: CustomEvent<string>) {
+    const name = e.detail;
+    const previous = this.mappingProfiles.find(p => p.name === name);
+    const firstActiveInput = this.activeMidiInputIds.find(id => this.midiInputIds.includes(id));
+    const deviceName = previous?.deviceName
+      ?? (firstActiveInput ? this.midiDispatcher.getDeviceName(firstActiveInput) : null);
+    const promptsToCapture = new Map(this.prompts);
+    promptsToCapture.delete(BPM_PROMPT_ID);
+    const profile = captureMappingProfile(name, deviceName, promptsToCapture, this.midiLearn.getBindings());
+    this.storeMappingProfile(profile);
+    this.showToast(`Saved MIDI mapping "${name}"`);
+  }
+
+  private handleMappingProfileDeleted(e: CustomEvent<string>) {
+    this.mappingProfiles = this.mappingProfiles.filter(p => p.name !== e.detail);
+    setStoredMappingProfiles(this.mappingProfiles);
+    if (this.activeMappingProfileName === e.detail) {
+      this.activeMappingProfileName = null;
+    }
+  }
+
+  private handleMappingProfileImported(e: CustomEvent<string>) {
+    let profile: MappingProfile;
+    try {
+      profile = parseMappingProfile(e.detail);
+    } catch (error) {
+      console.error('Failed to import mapping profile:', error);
+      this.showToast(`Could not import mapping profile: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    this.storeMappingProfile(profile);
+    this.loadMappingProfile(profile);
+    this.showToast(`Imported MIDI mapping "${profile.name}"`);
+  }
+
+  /** Adds the profile, replacing any profile with the same name, and makes it the active one. */
+  private storeMappingProfile(profile: MappingProfile) {
+    this.mappingProfiles = [...this.mappingProfiles.filter(p => p.name !== profile.name), profile];
+    setStoredMappingProfiles(this.mappingProfiles);
+    this.activeMappingProfileName = profile.name;
+  }
+
+  private captureSessionDocument(): SessionDocument {
+    return {
+      format: SESSION_FORMAT,
+      version: SESSION_VERSION,
+      exportedAt: new Date().toISOString(),
+      prompts: Array.from(this.prompts.values())
+        .filter(p => p.promptId !== BPM_PROMPT_ID)
+        .map(p => ({ ...p })),
+      bpm: { value: this.currentBpm, min: this.minBpm, max: this.maxBpm },
+      config: { ...(this.settingsControllerEl?.config ?? {}) },
+      mappings: { bindings: this.midiLearn.getBindings(), profiles: this.mappingProfiles },
+      scenes: this.scenes,
+    };
+  }
+
+  private handleSessionExport() {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadJson(`prompt-dj-session-${date}.json`, this.captureSessionDocument());
+  }
+
+  private handleSessionImport(e: CustomEvent<string>) {
+    let session: SessionDocument;
+    try {
+      session = parseSessionDocument(e.detail);
+    } catch (error) {
+      console.error('Failed to import session:', error);
+      this.showToast(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    this.pendingSessionImport = { document: session, changes: diffSessionDocuments(this.captureSessionDocument(), session) };
+  }
+
+  /**
+   * Applies a previewed session file. Prompts are matched by id so the current
+   * layout stays intact; profiles and scenes are merged rather than replaced.
+   */
+  private async applySessionImport() {
+    if (!this.pendingSessionImport) return;
+    const { document: session } = this.pendingSessionImport;
+    this.pendingSessionImport = null;
+    this.cancelMorph();
+    this.suppressHistory = true;
+
+    const imported = new Map(session.prompts.map(p => [p.promptId, p]));
+    const prompts = new Map<string, Prompt>();
+    for (const [promptId, current] of this.prompts) {
+      const prompt = imported.get(promptId);
+      prompts.set(promptId, prompt ? { ...current, ...prompt, promptId, sourceType: current.sourceType } : current);
+    }
+    this.prompts = prompts;
+    this.filteredPrompts = new Set<string>();
+
+    this.minBpm = session.bpm.min;
+    this.maxBpm = session.bpm.max;
+    this.bpmControllerEl?.cancelRamp();
+    this.currentBpm = Math.max(this.minBpm, Math.min(session.bpm.value, this.maxBpm));
+    this.updateBpmSpecificPrompt();
+    this.throttledSendBpmToSession();
+    this.settingsControllerEl?.applyConfig(session.config);
+
+    this.midiLearn.setBindings(session.mappings.bindings);
+    const importedNames = new Set(session.mappings.profiles.map(p => p.name));
+    this.mappingProfiles = [...this.mappingProfiles.filter(p => !importedNames.has(p.name)), ...session.mappings.profiles];
+    setStoredMappingProfiles(this.mappingProfiles);
+    this.activeMappingProfileName = null;
+
+    this.dispatchPromptsChange();
+    this.resyncMidiFeedback();
+    this.suppressHistory = false;
+    this.recordHistory('Import session');
+
+    for (const scene of session.scenes) {
+      await this.saveScene(scene);
+    }
+    this.showToast('Session imported');
+  }
+
+  private async copyShareLink() {
+    const prompts = Array.from(this.prompts.values()).filter(p => p.promptId !== BPM_PROMPT_ID);
+    const link = buildShareLink(prompts, this.currentBpm, this.settingsControllerEl?.config ?? {});
+    try {
+      await navigator.clipboard.writeText(link);
+      this.showToast('Share link copied to clipboard');
+    } catch (e) {
+      console.error('Failed to copy share link:', e);
+      window.prompt('Copy this link to share your setup:', link);
+    }
+  }
+
+  private handleMidiOutputChange(e: CustomEvent<string | null>) {
+    this.activeMidiOutputId = e.detail;
+    this.resyncMidiFeedback();
+  }
+
+  private handleMidiInputsChange(e: CustomEvent<string[]>) {
+    this.activeMidiInputIds = e.detail;
+  }
+
+  private handleMidiDevicesChanged = (e: Event) => {
+    const { inputIds, outputIds, added, removed } = (e as CustomEvent<MidiDevicesChange>).detail;
+    const lostActiveIds = removed.filter(id => this.activeMidiInputIds.includes(id) || id === this.activeMidiOutputId);
+    this.midiInputIds = inputIds;
+    this.activeMidiInputIds = Array.from(this.midiDispatcher.activeMidiInputIds);
+    this.midiOutputIds = outputIds;
+    if (this.activeMidiOutputId !== null && added.includes(this.activeMidiOutputId)) {
+      this.resyncMidiFeedback();
+    }
+    this.autoSelectMappingProfile(added.filter(id => inputIds.includes(id)));
+    if (lostActiveIds.length > 0) {
+      const names = lostActiveIds.map(id => this.midiDispatcher.getDeviceName(id) ?? id).join(', ');
+      this.showToast(`MIDI device disconnected: ${names}`);
+    }
+  };
+
+  private isMappingDeviceOnline(prompt: Prompt) {
+    return prompt.deviceId === null || this.midiInputIds.includes(prompt.deviceId);
   }
 
   private async resetAll() {
+    this.cancelMorph();
+    this.sharedSetup = null;
+    this.suppressHistory = true;
     const defaultUserPrompts = buildDefaultPrompts(this.knobPresetCategories, this.buttonPresetCategories, this.themeHaloColors);
     this.prompts = defaultUserPrompts;
     this.filteredPrompts = new Set<string>();
 
+    this.bpmControllerEl?.cancelRamp();
     if (this.minBpm && this.maxBpm) {
         this.currentBpm = Math.max(this.minBpm, Math.min(120.0, this.maxBpm));
     } else {
@@ -1275,6 +2184,8 @@ class PromptDjMidi extends LitElement {
             } catch (err) { console.error("Error clearing music gen config on reset:", err); }
         }
     }
+    this.suppressHistory = false;
+    this.recordHistory('Reset all');
     
     await this.sendCurrentBpmToSession(); 
 
@@ -1282,29 +2193,12 @@ class PromptDjMidi extends LitElement {
 
     if (this.playbackState === 'stopped' || this.playbackState === 'paused') {
       if (this.connectionError || !this.session) {
-        this.showToast('Reconnecting...');
+        // The reset state is replayed and playback starts once the session is set up again; see connectToSession.
+        this.resumeAfterReconnect = true;
         this.playbackState = 'loading';
         if (this.playPauseButton) this.playPauseButton.requestUpdate();
-        try {
-            await this.connectToSession();
-            if (!this.connectionError && this.session) {
-              await this.setSessionPrompts(); 
-              await this.sendCurrentBpmToSession(); 
-              if (this.settingsControllerEl) {
-                this.handleSettingsChanged(new CustomEvent('settings-changed', { detail: this.settingsControllerEl.config }));
-              }
-              this.play();
-              toastMessageText = 'All prompts & settings reset & playback started!';
-            } else {
-              this.playbackState = 'stopped';
-              toastMessageText = 'All prompts & settings reset. Reconnection failed.';
-              if (this.playPauseButton) this.playPauseButton.requestUpdate();
-            }
-        } catch(e) {
-             this.playbackState = 'stopped';
-             toastMessageText = 'All prompts & settings reset. Reconnection critically failed.';
-             if (this.playPauseButton) this.playPauseButton.requestUpdate();
-        }
+        this.connectionManager.retryNow();
+        toastMessageText = 'All prompts & settings reset. Reconnecting...';
       } else {
         await this.setSessionPrompts(); 
         await this.sendCurrentBpmToSession(); 
@@ -1327,20 +2221,13 @@ class PromptDjMidi extends LitElement {
   }
 
   private async handleSettingsChanged(e: CustomEvent<LiveMusicGenerationConfig>) {
+    this.recordHistory('Settings', 'settings');
     if (this.session && !this.connectionError) {
         try {
             await this.session.setMusicGenerationConfig({ musicGenerationConfig: e.detail });
             console.log("Music generation config updated via settings controller:", e.detail);
         } catch (err) {
-            console.error("Error setting music generation config from settings controller:", err);
-            this.showToast("Error updating music settings.");
-            if (err instanceof Error && (err.message.includes('session is closed') || err.message.includes('unavailable'))) {
-                this.connectionError = true;
-                this.playbackState = 'stopped';
-                this.session = undefined;
-                this.showToast('Session lost while updating settings. Please restart audio.');
-                if (this.playPauseButton) this.playPauseButton.requestUpdate();
-            }
+            this.handleSessionError(err, 'Error updating music settings');
         }
     } else if (!this.session || this.connectionError) {
         console.log("Settings changed, but session not active. Will apply on connection.");
@@ -1349,7 +2236,7 @@ class PromptDjMidi extends LitElement {
 
 
   override render() {
-    const userPromptsList = Array.from(this.prompts.values()).filter(p => p.promptId !== BPM_PROMPT_ID);
+    const userPromptsList = Array.from(this.getVisiblePrompts().values()).filter(p => p.promptId !== BPM_PROMPT_ID);
     const knobPrompts = userPromptsList.slice(0, NUM_KNOBS);
     const togglePrompts = userPromptsList.slice(NUM_KNOBS);
 
@@ -1374,20 +2261,67 @@ class PromptDjMidi extends LitElement {
             title=${this.showMidi ? 'Hide MIDI Controls' : 'Show MIDI Controls'}
             >MIDI</button
           >
-          <select
-            @change=${this.handleMidiInputChange}
-            .value=${this.activeMidiInputId || ''}
-            aria-label="Select MIDI Input Device"
-            ?hidden=${!this.showMidi}>
-            ${this.midiInputIds.length > 0
-          ? this.midiInputIds.map(
-            (id) =>
-              html`<option value=${id}>
-                      ${this.midiDispatcher.getDeviceName(id)}
-                    </option>`,
-          )
-          : html`<option value="">No MIDI devices found</option>`}
-          </select>
+          <midi-device-panel
+            .midiDispatcher=${this.midiDispatcher}
+            .inputIds=${this.midiInputIds}
+            .activeInputIds=${this.activeMidiInputIds}
+            .outputIds=${this.midiOutputIds}
+            .activeOutputId=${this.activeMidiOutputId}
+            .midiFeedback=${this.midiFeedback}
+            @midi-inputs-changed=${this.handleMidiInputsChange}
+            @midi-output-changed=${this.handleMidiOutputChange}
+            .followClock=${this.followMidiClock}
+            @midi-clock-follow-changed=${this.handleMidiClockFollowChange}
+            .clockOutputId=${this.midiClockOutputId}
+            @midi-clock-output-changed=${this.handleMidiClockOutputChange}
+            .mappingProfiles=${this.mappingProfiles}
+            .activeProfileName=${this.activeMappingProfileName}
+            @mapping-profile-selected=${this.handleMappingProfileSelected}
+            @mapping-profile-saved=${this.handleMappingProfileSaved}
+            @mapping-profile-deleted=${this.handleMappingProfileDeleted}
+            @mapping-profile-imported=${this.handleMappingProfileImported}
+            ?hidden=${!this.showMidi}
+          ></midi-device-panel>
+          <scene-panel
+            .scenes=${this.scenes}
+            .activeSceneId=${this.activeSceneId}
+            .learningSceneId=${this.learningSceneId}
+            @scene-save=${this.handleSceneSave}
+            @scene-overwrite=${this.handleSceneOverwrite}
+            @scene-delete=${this.handleSceneDelete}
+            @scene-recall=${this.handleSceneRecallEvent}
+            @scene-learn=${this.handleSceneLearn}
+            @scene-clear-trigger=${this.handleSceneClearTrigger}
+            .morphAmount=${this.sceneMorphAmount}
+            .morphUnit=${this.sceneMorphUnit}
+            .morphProgress=${this.morphProgress}
+            @scene-morph-changed=${this.handleSceneMorphChanged}
+            @scene-morph-cancel=${this.cancelMorph}
+          ></scene-panel>
+          <history-panel
+            .history=${this.history}
+            @history-undo=${this.undo}
+            @history-redo=${this.redo}
+            @history-jump=${this.handleHistoryJump}
+          ></history-panel>
+          <session-panel
+            @session-export=${this.handleSessionExport}
+            @session-import=${this.handleSessionImport}
+          ></session-panel>
+          <connection-status
+            .status=${this.connectionStatus}
+            @connection-retry=${() => this.connectionManager.retryNow()}
+          ></connection-status>
+          <audio-diagnostics
+            .stats=${this.audioChunkStats}
+            .bufferMetrics=${this.jitterBufferMetrics}
+            .sampleRate=${this.sessionSampleRate}
+            .numChannels=${this.sessionNumChannels}
+            @audio-diagnostics-reset=${() => { this.audioChunkStats = EMPTY_AUDIO_CHUNK_STATS; }}
+          ></audio-diagnostics>
+          <button id="share-link-button" @click=${this.copyShareLink} title="Copy a link that reproduces the current prompts, BPM and settings">
+            Share
+          </button>
         </div>
 
         <div id="app-title-container">
@@ -1404,7 +2338,11 @@ class PromptDjMidi extends LitElement {
             .currentBpm=${this.currentBpm}
             .minBpm=${this.minBpm}
             .maxBpm=${this.maxBpm}
+            .midiLearn=${this.midiLearn}
+            .showMidi=${this.showMidi}
+            .externalClock=${this.followMidiClock}
             @bpm-changed=${this.handleBpmChange}
+            @bpm-ramp-completed=${this.handleBpmRampCompleted}
           ></bpm-controller>
         </div>
       </div>
@@ -1416,6 +2354,12 @@ class PromptDjMidi extends LitElement {
               .promptId=${prompt.promptId}
               .filtered=${this.filteredPrompts.has(prompt.text)}
               .cc=${prompt.cc}
+              .channel=${prompt.channel}
+              .deviceId=${prompt.deviceId}
+              .deviceOnline=${this.isMappingDeviceOnline(prompt)}
+              .takeover=${prompt.takeover ?? 'jump'}
+              .encoder=${prompt.encoder ?? DEFAULT_ENCODER_CONFIG}
+              .hiRes=${prompt.hiRes}
               .text=${prompt.text}
               .weight=${prompt.weight}
               .color=${prompt.color}
@@ -1437,6 +2381,12 @@ class PromptDjMidi extends LitElement {
               .weight=${prompt.weight}
               .color=${prompt.color}
               .filtered=${this.filteredPrompts.has(prompt.text)}
+              .note=${prompt.note ?? -1}
+              .channel=${prompt.channel}
+              .deviceId=${prompt.deviceId}
+              .deviceOnline=${this.isMappingDeviceOnline(prompt)}
+              .midiDispatcher=${this.midiDispatcher}
+              .showCC=${this.showMidi}
               .audioLevel=${this.overallAudioLevel}
               .categoryKey=${prompt.categoryKey}
               .sourceType=${prompt.sourceType}
@@ -1448,11 +2398,18 @@ class PromptDjMidi extends LitElement {
 
       <div id="settings-controller-wrapper">
         <settings-controller
+            .midiLearn=${this.midiLearn}
+            .showMidi=${this.showMidi}
             @settings-changed=${this.handleSettingsChanged}
         ></settings-controller>
       </div>
 
       <div id="main-playback-controls">
+        ${this.showMidi ? html`
+          <div id="playback-learn-badges">
+            <midi-learn-badge .registry=${this.midiLearn} targetId="play-pause"></midi-learn-badge>
+            <midi-learn-badge .registry=${this.midiLearn} targetId="reset"></midi-learn-badge>
+          </div>` : ''}
         <play-pause-button 
             .playbackState=${this.playbackState} 
             @click=${this.handlePlayPause}
@@ -1460,8 +2417,33 @@ class PromptDjMidi extends LitElement {
         <randomize-button 
             @click=${this.resetAll}
         ></randomize-button>
+        <button
+          id="crossfader-toggle"
+          class=${this.crossfaderEnabled ? 'active' : ''}
+          aria-pressed=${this.crossfaderEnabled}
+          title="A/B crossfader between two prompt decks"
+          @click=${this.toggleCrossfader}
+        >A/B</button>
+        ${this.crossfaderEnabled ? html`
+          <crossfader-control
+            .position=${this.crossfaderPosition}
+            .curve=${this.crossfaderCurve}
+            .editingDeck=${this.editingDeck}
+            .midiLearn=${this.midiLearn}
+            .showMidi=${this.showMidi}
+            @deck-selected=${this.handleDeckSelected}
+            @crossfader-changed=${this.handleCrossfaderChanged}
+            @crossfader-curve-changed=${this.handleCrossfaderCurveChanged}
+          ></crossfader-control>` : ''}
       </div>
       
+      ${this.pendingSessionImport ? html`
+        <session-import-dialog
+          .exportedAt=${this.pendingSessionImport.document.exportedAt}
+          .changes=${this.pendingSessionImport.changes}
+          @session-import-apply=${this.applySessionImport}
+          @session-import-cancel=${() => { this.pendingSessionImport = null; }}
+        ></session-import-dialog>` : ''}
       <toast-message></toast-message>`;
   }
 }
@@ -1525,27 +2507,61 @@ async function main(parent: HTMLElement) {
   ];
 
   const midiDispatcher = new MidiDispatcher();
+  const midiLearn = new MidiLearnRegistry(midiDispatcher, getStoredMidiBindings());
 
   const knobPresets = await fetchAndProcessPresets('./presets/knob_prompt_presets.json');
   const buttonPresets = await fetchAndProcessPresets('./presets/button_prompt_presets.json');
   const slideshowPresetData = await fetchSlideshowPresets('./presets/slideshow_prompt_presets.json');
 
-  const initialPrompts = getInitialPrompts(knobPresets, buttonPresets, themeHaloColors);
+  const { prompts: initialPrompts, sharedSetup } = getInitialPrompts(knobPresets, buttonPresets, themeHaloColors);
 
   const pdjMidi = new PromptDjMidi(
     initialPrompts,
     midiDispatcher,
+    midiLearn,
     knobPresets,
     buttonPresets,
-    slideshowPresetData
+    slideshowPresetData,
+    sharedSetup
   );
   parent.appendChild(pdjMidi);
 }
 
+/**
+ * Loads the user prompts, from localStorage when available. A setup shared
+ * through the URL fragment takes precedence once the user confirms it; its
+ * texts and weights are laid over the prompts and it is returned so the
+ * BPM and settings can be applied too.
+ */
 function getInitialPrompts(
     knobPresetCategories: CategorizedPresets | null,
     buttonPresetCategories: CategorizedPresets | null,
     themeHaloColors: string[]
+): { prompts: Map<string, Prompt>; sharedSetup: SharedSetup | null } {
+  const prompts = getStoredOrDefaultPrompts(knobPresetCategories, buttonPresetCategories, themeHaloColors);
+
+  let sharedSetup = decodeShareFragment(window.location.hash);
+  if (isShareFragment(window.location.hash)) {
+    // Clear the fragment so a reload doesn't ask again.
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  }
+  if (sharedSetup && !window.confirm('Load the setup from this link? It replaces your current prompts, BPM and settings.')) {
+    sharedSetup = null;
+  }
+  if (sharedSetup) {
+    sharedSetup.prompts.forEach((shared, promptId) => {
+      const prompt = prompts.get(promptId);
+      if (prompt) prompts.set(promptId, { ...prompt, text: shared.text, weight: shared.weight });
+    });
+    console.log('Loaded shared setup from URL.');
+  }
+  return { prompts, sharedSetup };
+}
+
+function getStoredOrDefaultPrompts(
+    knobPresetCategories: CategorizedPresets | null,
+    buttonPresetCategories: CategorizedPresets | null,
+    themeHaloColors: string[]
 ): Map<string, Prompt> {
   const { localStorage } = window;
   const storedPromptsString = localStorage.getItem('prompts');
@@ -1568,6 +2584,12 @@ function getInitialPrompts(
                     text: storedPrompt.text !== undefined ? storedPrompt.text : defaultPrompt.text,
                     weight: storedPrompt.weight !== undefined ? storedPrompt.weight : defaultPrompt.weight,
                     cc: storedPrompt.cc !== undefined ? storedPrompt.cc : defaultPrompt.cc,
+                    note: storedPrompt.note !== undefined ? storedPrompt.note : defaultPrompt.note,
+                    channel: storedPrompt.channel !== undefined ? storedPrompt.channel : defaultPrompt.channel,
+                    deviceId: storedPrompt.deviceId !== undefined ? storedPrompt.deviceId : defaultPrompt.deviceId,
+                    takeover: storedPrompt.takeover || defaultPrompt.takeover,
+                    encoder: storedPrompt.encoder || defaultPrompt.encoder,
+                    hiRes: storedPrompt.hiRes || defaultPrompt.hiRes,
                     color: defaultPrompt.color, // Always take default color for theme consistency
                     sourceType: storedPrompt.sourceType || defaultPrompt.sourceType,
                     categoryKey: storedPrompt.categoryKey !== undefined ? storedPrompt.categoryKey : defaultPrompt.categoryKey,
@@ -1663,6 +2685,9 @@ function buildDefaultPrompts(
             text,
             weight: initialWeight,
             cc: i,
+            note: sourceType === 'button' ? -1 : undefined,
+            channel: 0,
+            deviceId: null,
             color,
             categoryKey,
             sourceType,
@@ -1693,4 +2718,21 @@ function setStoredPrompts(promptsToStore: Map<string, Prompt>) {
   localStorage.setItem('prompts', storedPrompts);
 }
 
+function getStoredMidiBindings(): MidiBinding[] {
+  const storedBindings = window.localStorage.getItem('midiBindings');
+  if (!storedBindings) return [];
+  try {
+    const bindings = JSON.parse(storedBindings);
+    return Array.isArray(bindings) ? bindings as MidiBinding[] : [];
+  } catch (e) {
+    console.error('Failed to parse stored MIDI bindings', e);
+    return [];
+  }
+}
+
+function setStoredMidiBindings(bindings: MidiBinding[]) {
+  const { localStorage } = window;
+  localStorage.setItem('midiBindings', JSON.stringify(bindings));
+}
+
 main(document.body);
\ No newline at end of file
@@ -6,16 +6,96 @@ export interface Prompt {
   readonly promptId: string;
   text: string;
   weight: number;
-  cc: number; // MIDI CC for knobs, index for toggles (currently not MIDI-linked)
+  cc: number; // MIDI CC for knobs, index for toggles
+  note?: number; // MIDI note for toggles, -1 when not learned
+  channel: number; // MIDI channel (0-15) the cc/note mapping listens on
+  deviceId: string | null; // MIDI input the mapping is scoped to, null for any device
+  takeover?: TakeoverMode; // How a hardware knob takes over from the on-screen weight
+  encoder?: EncoderConfig; // Relative encoder handling, absolute CC when missing
+  hiRes?: HighResKind; // 14-bit mapping; `cc` then holds the MSB CC or (N)RPN parameter number
   color: string;
   categoryKey: string | null; // Key of the category from its preset source
   sourceType: 'knob' | 'button'; // To identify which preset file it came from
 }
 
+/**
+ * jump: the weight follows the knob immediately.
+ * pickup: the knob has no effect until it crosses the current weight.
+ * scale: the knob moves the weight proportionally until both meet.
+ */
+export type TakeoverMode = 'jump' | 'pickup' | 'scale';
+
+/** How an endless encoder encodes a relative step in a CC value. */
+export type EncoderMode = 'absolute' | 'twos-complement' | 'binary-offset' | 'sign-magnitude';
+
+export interface EncoderConfig {
+  mode: EncoderMode;
+  sensitivity: number; // Weight change per encoder tick
+  acceleration: number; // 0 (off) to 1, boost applied to fast turns
+}
+
 export interface ControlChange {
   channel: number;
   cc: number;
   value: number;
+  deviceId: string;
+}
+
+/** cc14: MSB/LSB CC pair (0-31 with 32-63). nrpn/rpn: parameter number plus data entry. */
+export type HighResKind = 'cc14' | 'nrpn' | 'rpn';
+
+export interface HighResControlChange {
+  kind: HighResKind;
+  channel: number;
+  number: number; // MSB CC number, or the 14-bit (N)RPN parameter number
+  value: number; // 0-16383
+  deviceId: string;
+}
+
+export interface NoteMessage {
+  channel: number;
+  note: number;
+  velocity: number;
+  deviceId: string;
+}
+
+export interface MidiDevicesChange {
+  inputIds: string[];
+  outputIds: string[];
+  added: string[];
+  removed: string[];
+}
+
+export interface MidiClockTick {
+  timestamp: number; // DOMHighResTimeStamp of the 0xF8 message
+  deviceId: string;
+}
+
+export type MidiTransportCommand = 'start' | 'continue' | 'stop';
+
+export interface MidiTransportMessage {
+  command: MidiTransportCommand;
+  deviceId: string;
+}
+
+/** A CC or note bound to a learnable control outside the prompt grid. */
+export interface MidiBinding {
+  targetId: string;
+  type: 'cc' | 'note';
+  channel: number;
+  number: number;
+  deviceId: string | null;
+}
+
+/** The MIDI mapping fields of a prompt, as captured in a mapping profile. */
+export type PromptMapping = Pick<Prompt, 'cc' | 'note' | 'channel' | 'deviceId' | 'takeover' | 'encoder' | 'hiRes'>;
+
+/** A named set of MIDI mappings, usually made for one controller model. */
+export interface MappingProfile {
+  name: string;
+  deviceName: string | null; // Selected automatically when a device with this name connects
+  prompts: Record<string, PromptMapping>; // Keyed by promptId
+  bindings: MidiBinding[];
 }
 
 export type PlaybackState = 'stopped' | 'playing' | 'loading' | 'paused';
@@ -35,3 +115,85 @@ export type LiveMusicGenerationConfig = {
   muteDrums?: boolean;
   onlyBassAndDrums?: boolean;
 };
+
+/** Everything an undo step restores. */
+export interface HistorySnapshot {
+  prompts: Prompt[]; // Deck A, without the internal BPM prompt
+  deckBPrompts: Prompt[];
+  bpm: number;
+  config: LiveMusicGenerationConfig;
+}
+
+/** A note or program change that recalls a scene. */
+export interface SceneTrigger {
+  type: 'note' | 'program';
+  channel: number;
+  number: number;
+  deviceId: string | null;
+}
+
+/** A named snapshot of the whole control surface. */
+export interface Scene {
+  id: string;
+  name: string;
+  prompts: Prompt[]; // Without the internal BPM prompt
+  bpm: number;
+  config: LiveMusicGenerationConfig;
+  trigger: SceneTrigger | null;
+  createdAt: number;
+}
+
+export interface ProgramChangeMessage {
+  channel: number;
+  program: number;
+  deviceId: string;
+}
+
+/** A full session as written to and read from an export file. */
+export interface SessionDocument {
+  format: 'prompt-dj-midi-session';
+  version: number;
+  exportedAt: string;
+  prompts: Prompt[]; // Without the internal BPM prompt
+  bpm: { value: number; min: number; max: number };
+  config: LiveMusicGenerationConfig;
+  mappings: { bindings: MidiBinding[]; profiles: MappingProfile[] };
+  scenes: Scene[];
+}
+
+export type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'failed';
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  /** Reconnection attempts made since the connection was last up. */
+  attempt: number;
+  maxAttempts: number;
+  /** When the next attempt starts, as a `Date.now()` timestamp; null if none is scheduled. */
+  nextRetryAt: number | null;
+}
+
+/** Running counts of audio chunks received from the session and what happened to them. */
+export interface AudioChunkStats {
+  received: number;
+  /** Decoded and handed to the jitter buffer. */
+  queued: number;
+  /** Arrived while paused or stopped. */
+  dropped: number;
+  /** Missing or undecodable data. */
+  malformed: number;
+  /** Mime type, sample rate or channel count different from what the session announced. */
+  formatMismatches: number;
+  lastIssue: string | null;
+}
+
+/** Fill level and health of the playback jitter buffer, as reported by its worklet. */
+export interface JitterBufferMetrics {
+  state: 'idle' | 'buffering' | 'playing';
+  fillSeconds: number;
+  /** How much audio is buffered before playback starts or resumes; grows after underruns. */
+  targetSeconds: number;
+  capacitySeconds: number;
+  underruns: number;
+  /** Times audio arrived faster than it played and the oldest audio was dropped. */
+  overflows: number;
+}
@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ConnectionStatus } from '../types';
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+const MAX_ATTEMPTS = 10;
+
+/**
+ * Keeps the music session connected. When the connection drops, `connect`
+ * is retried with exponential backoff and jitter until the app reports the
+ * session as up again, or the attempts run out. Dispatches `status-changed`
+ * whenever the state, attempt count or retry time changes.
+ */
+export class ConnectionManager extends EventTarget {
+  private status: ConnectionStatus = { state: 'connecting', attempt: 0, maxAttempts: MAX_ATTEMPTS, nextRetryAt: null };
+  private retryTimer: number | null = null;
+  private attemptInFlight = false;
+
+  constructor(
+    private readonly connect: () => Promise<void>,
+    /** Errors it returns false for end the series right away, since retrying won't help. */
+    private readonly isRetryable: (error: unknown) => boolean = () => true,
+  ) {
+    super();
+  }
+
+  getStatus(): ConnectionStatus {
+    return this.status;
+  }
+
+  get isReconnecting() {
+    return this.status.state === 'reconnecting';
+  }
+
+  /** Called once the session is ready (on `setupComplete`); resets the backoff. */
+  connected() {
+    this.clearRetryTimer();
+    this.setStatus({ state: 'connected', attempt: 0, nextRetryAt: null });
+  }
+
+  /** Reports a dropped or failed connection. Does nothing while an attempt is already pending. */
+  connectionLost() {
+    if (this.retryTimer !== null || this.attemptInFlight) return;
+    if (this.status.attempt >= MAX_ATTEMPTS) {
+      this.setStatus({ state: 'failed', nextRetryAt: null });
+      return;
+    }
+    // Full backoff for this attempt, randomized down to half so clients that dropped together spread out.
+    const backoff = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** this.status.attempt);
+    const delay = backoff * (0.5 + Math.random() / 2);
+    this.retryTimer = window.setTimeout(() => {
+      this.retryTimer = null;
+      this.attempt();
+    }, delay);
+    this.setStatus({ state: 'reconnecting', nextRetryAt: Date.now() + delay });
+  }
+
+  /** Skips the wait and tries right away, starting a fresh series if the previous one gave up. */
+  retryNow() {
+    if (this.attemptInFlight) return;
+    this.clearRetryTimer();
+    if (this.status.state === 'failed' || this.status.state === 'connected') {
+      this.setStatus({ attempt: 0 });
+    }
+    this.attempt();
+  }
+
+  private async attempt() {
+    this.attemptInFlight = true;
+    this.setStatus({ state: 'reconnecting', attempt: this.status.attempt + 1, nextRetryAt: null });
+    try {
+      await this.connect();
+      this.attemptInFlight = false;
+    } catch (e) {
+      console.warn(`Reconnection attempt ${this.status.attempt} failed:`, e);
+      this.attemptInFlight = false;
+      if (this.isRetryable(e)) {
+        this.connectionLost();
+      } else {
+        this.setStatus({ state: 'failed', nextRetryAt: null });
+      }
+    }
+  }
+
+  private clearRetryTimer() {
+    if (this.retryTimer === null) return;
+    window.clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+  }
+
+  private setStatus(changes: Partial<ConnectionStatus>) {
+    this.status = { ...this.status, ...changes };
+    this.dispatchEvent(new CustomEvent<ConnectionStatus>('status-changed', { detail: this.status }));
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { JITTER_BUFFER_PROCESSOR, JITTER_BUFFER_PROCESSOR_SOURCE } from './jitterBufferProcessor';
+import type { JitterBufferMetrics } from '../types';
+
+const CAPACITY_SECONDS = 30;
+const TARGET_SECONDS = 1;
+const MIN_TARGET_SECONDS = 0.5;
+const MAX_TARGET_SECONDS = 4;
+
+function resampleLinear(input: Float32Array, fromRate: number, toRate: number): Float32Array {
+  const output = new Float32Array(Math.round((input.length * toRate) / fromRate));
+  const step = fromRate / toRate;
+  for (let i = 0; i < output.length; i++) {
+    const position = i * step;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, input.length - 1);
+    output[i] = input[index] + (input[next] - input[index]) * (position - index);
+  }
+  return output;
+}
+
+/**
+ * Plays streamed audio through an AudioWorklet ring buffer, so late chunks
+ * are absorbed by an adaptive latency instead of leaving gaps. Dispatches
+ * `started` with the audio-context time playback (re)starts at, and
+ * `metrics` with the buffer's fill level a few times a second.
+ */
+export class JitterBuffer extends EventTarget {
+  private constructor(readonly node: AudioWorkletNode) {
+    super();
+    node.port.onmessage = (event: MessageEvent) => {
+      const { data } = event;
+      if (data.type === 'started') {
+        this.dispatchEvent(new CustomEvent<number>('started', { detail: data.time }));
+      } else if (data.type === 'metrics') {
+        this.dispatchEvent(new CustomEvent<JitterBufferMetrics>('metrics', { detail: data.metrics }));
+      }
+    };
+  }
+
+  static async create(context: AudioContext): Promise<JitterBuffer> {
+    const url = URL.createObjectURL(new Blob([JITTER_BUFFER_PROCESSOR_SOURCE], { type: 'text/javascript' }));
+    try {
+      await context.audioWorklet.addModule(url);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+    const node = new AudioWorkletNode(context, JITTER_BUFFER_PROCESSOR, {
+      numberOfInputs: 0,
+      numberOfOutputs: 1,
+      outputChannelCount: [2],
+      processorOptions: {
+        capacitySeconds: CAPACITY_SECONDS,
+        targetSeconds: TARGET_SECONDS,
+        minTargetSeconds: MIN_TARGET_SECONDS,
+        maxTargetSeconds: MAX_TARGET_SECONDS,
+      },
+    });
+    return new JitterBuffer(node);
+  }
+
+  /** Queues decoded audio behind what is already buffered, resampled to the context rate if needed. */
+  push(buffer: AudioBuffer) {
+    const contextRate = this.node.context.sampleRate;
+    const channels: Float32Array[] = [];
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+      const data = buffer.getChannelData(c);
+      channels.push(buffer.sampleRate === contextRate ? data.slice() : resampleLinear(data, buffer.sampleRate, contextRate));
+    }
+    this.node.port.postMessage({ type: 'push', channels }, channels.map((channel) => channel.buffer));
+  }
+
+  /** Drops everything buffered, fading out what was playing. */
+  reset() {
+    this.node.port.postMessage({ type: 'reset' });
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { MidiDispatcher } from './MidiDispatcher';
+import type { MidiClockTick } from '../types';
+
+const PULSES_PER_QUARTER_NOTE = 24;
+/** Ticks averaged per estimate: two beats, enough to ride out USB jitter. */
+const WINDOW_SIZE = PULSES_PER_QUARTER_NOTE * 2;
+/** A gap this long means the clock stopped; the next tick starts a fresh estimate. */
+const CLOCK_TIMEOUT_MS = 500;
+/** Weight of a new estimate in the exponential smoothing. */
+const SMOOTHING = 0.3;
+/** Changes below this are jitter and not reported. */
+const MIN_BPM_CHANGE = 0.1;
+
+/**
+ * Derives a smoothed tempo from incoming MIDI clock ticks and dispatches
+ * `tempo-changed` at most once per beat. Follows the first device that
+ * sends clock until it goes quiet.
+ */
+export class MidiClockFollower extends EventTarget {
+  bpm: number | null = null;
+
+  private ticks: number[] = [];
+  private sourceDeviceId: string | null = null;
+  private ticksSinceReport = 0;
+  private reportedBpm: number | null = null;
+
+  constructor(private readonly midiDispatcher: MidiDispatcher) {
+    super();
+  }
+
+  start() {
+    this.reset();
+    this.midiDispatcher.addEventListener('clock', this.handleClock);
+  }
+
+  stop() {
+    this.midiDispatcher.removeEventListener('clock', this.handleClock);
+    this.reset();
+  }
+
+  private reset() {
+    this.ticks = [];
+    this.sourceDeviceId = null;
+    this.ticksSinceReport = 0;
+    this.reportedBpm = null;
+    this.bpm = null;
+  }
+
+  private handleClock = (e: Event) => {
+    const { timestamp, deviceId } = (e as CustomEvent<MidiClockTick>).detail;
+    const lastTick = this.ticks[this.ticks.length - 1];
+    if (lastTick !== undefined && timestamp - lastTick > CLOCK_TIMEOUT_MS) {
+      this.reset();
+    }
+    if (this.sourceDeviceId === null) {
+      this.sourceDeviceId = deviceId;
+    } else if (deviceId !== this.sourceDeviceId) {
+      return;
+    }
+
+    this.ticks.push(timestamp);
+    if (this.ticks.length > WINDOW_SIZE) this.ticks.shift();
+    if (this.ticks.length < PULSES_PER_QUARTER_NOTE + 1) return;
+
+    const msPerTick = (timestamp - this.ticks[0]) / (this.ticks.length - 1);
+    if (msPerTick <= 0) return;
+    const estimate = 60000 / (msPerTick * PULSES_PER_QUARTER_NOTE);
+    this.bpm = this.bpm === null ? estimate : this.bpm + SMOOTHING * (estimate - this.bpm);
+
+    if (++this.ticksSinceReport < PULSES_PER_QUARTER_NOTE) return;
+    this.ticksSinceReport = 0;
+    const bpm = Math.round(this.bpm * 10) / 10;
+    if (this.reportedBpm !== null && Math.abs(bpm - this.reportedBpm) < MIN_BPM_CHANGE) return;
+    this.reportedBpm = bpm;
+    this.dispatchEvent(new CustomEvent<{ bpm: number }>('tempo-changed', { detail: { bpm } }));
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { MidiDispatcher } from './MidiDispatcher';
+
+const PULSES_PER_QUARTER_NOTE = 24;
+const CLOCK = 0xf8;
+const START = 0xfa;
+const STOP = 0xfc;
+/** How often the scheduler wakes up, and how far ahead it queues ticks on the port. */
+const SCHEDULER_INTERVAL_MS = 25;
+const LOOKAHEAD_S = 0.1;
+
+/**
+ * Sends 24 PPQN MIDI clock plus start/stop to an output port. Ticks are
+ * scheduled in audio-context time and handed to the port with matching
+ * timestamps, so the downbeat lines up with the buffered audio.
+ */
+export class MidiClockMaster {
+  outputId: string | null = null;
+  bpm = 120;
+
+  private schedulerTimer: number | null = null;
+  /** Audio-context time of the next tick to queue. */
+  private nextTickTime = 0;
+
+  constructor(
+    private readonly midiDispatcher: MidiDispatcher,
+    private readonly audioContext: AudioContext,
+  ) {}
+
+  get isRunning() {
+    return this.schedulerTimer !== null;
+  }
+
+  /** Sends Start and begins clocking so the first tick lands at `audioStartTime`. */
+  start(audioStartTime: number) {
+    if (!this.outputId) return;
+    this.stopScheduler();
+    this.sendAt([START], audioStartTime);
+    this.nextTickTime = audioStartTime;
+    this.scheduleTicks();
+    this.schedulerTimer = window.setInterval(() => this.scheduleTicks(), SCHEDULER_INTERVAL_MS);
+  }
+
+  stop() {
+    if (!this.isRunning) return;
+    this.stopScheduler();
+    if (this.outputId) this.midiDispatcher.send([STOP], undefined, this.outputId);
+  }
+
+  /** Switches the clock to another port; a running clock is stopped on the old one. */
+  setOutput(outputId: string | null) {
+    this.stop();
+    this.outputId = outputId;
+  }
+
+  private stopScheduler() {
+    if (this.schedulerTimer !== null) {
+      window.clearInterval(this.schedulerTimer);
+      this.schedulerTimer = null;
+    }
+  }
+
+  private scheduleTicks() {
+    const horizon = this.audioContext.currentTime + LOOKAHEAD_S;
+    // After a stall (e.g. a backgrounded tab) skip missed ticks rather than bursting them out.
+    if (this.nextTickTime < this.audioContext.currentTime - LOOKAHEAD_S) {
+      this.nextTickTime = this.audioContext.currentTime;
+    }
+    while (this.nextTickTime < horizon) {
+      this.sendAt([CLOCK], this.nextTickTime);
+      this.nextTickTime += 60 / (this.bpm * PULSES_PER_QUARTER_NOTE);
+    }
+  }
+
+  private sendAt(message: number[], audioTime: number) {
+    this.midiDispatcher.send(message, this.toPerformanceTime(audioTime), this.outputId);
+  }
+
+  /** Converts audio-context time to the `performance.now()` clock that MIDIOutput.send uses. */
+  private toPerformanceTime(audioTime: number): number {
+    const { contextTime, performanceTime } = this.audioContext.getOutputTimestamp();
+    if (contextTime === undefined || performanceTime === undefined || performanceTime === 0) {
+      return performance.now() + (audioTime - this.audioContext.currentTime) * 1000;
+    }
+    return performanceTime + (audioTime - contextTime) * 1000;
+  }
+}
@@ -2,16 +2,60 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import type { ControlChange } from '../types';
+import type {
+  ControlChange,
+  HighResControlChange,
+  MidiClockTick,
+  MidiDevicesChange,
+  MidiTransportCommand,
+  MidiTransportMessage,
+  NoteMessage,
+  ProgramChangeMessage,
+} from '../types';
 
-/** Simple class for dispatching MIDI CC messages as events. */
+/** Data entry MSB; paired with CC 38 it carries the value of the selected (N)RPN. */
+const DATA_ENTRY_CC = 6;
+const NRPN_MSB_CC = 99;
+const NRPN_LSB_CC = 98;
+const RPN_MSB_CC = 101;
+const RPN_LSB_CC = 100;
+/** Parameter number 127/127 is the RPN "null" that deselects any parameter. */
+const NULL_PARAMETER = 0x3fff;
+
+const CLOCK_STATUS = 0xf8;
+const TRANSPORT_COMMANDS = new Map<number, MidiTransportCommand>([
+  [0xfa, 'start'],
+  [0xfb, 'continue'],
+  [0xfc, 'stop'],
+]);
+
+/** Per device and channel state needed to assemble 14-bit values. */
+interface HighResState {
+  msb: Map<number, number>;
+  /** MSB CCs whose LSB partner has been seen, i.e. controls that really send 14-bit values. */
+  pairedMsbCcs: Set<number>;
+  parameterKind: 'nrpn' | 'rpn' | null;
+  parameterMsb: number;
+  parameterLsb: number;
+}
+
+/** Simple class for dispatching MIDI CC, note and real-time messages as events, and sending them back out. */
 export class MidiDispatcher extends EventTarget {
   private access: MIDIAccess | null = null;
-  activeMidiInputId: string | null = null;
+  activeMidiInputIds = new Set<string>();
+  activeMidiOutputId: string | null = null;
+  /** When set, controls learned from now on only respond to the device they were learned from. */
+  lockLearnToDevice = false;
+
+  private connectedInputIds: string[] = [];
+  private connectedOutputIds: string[] = [];
+  private readonly seenInputIds = new Set<string>();
+  private readonly deviceNames = new Map<string, string>();
+  private readonly highResStates = new Map<string, HighResState>();
 
   async getMidiAccess(): Promise<string[]> {
     if (this.access) {
-      return Array.from(this.access.inputs.keys());
+      return this.connectedInputIds;
     }
 
     this.access = await navigator
@@ -19,47 +63,204 @@ export class MidiDispatcher extends EventTarget {
       .catch((error) => error);
     if (!(this.access instanceof MIDIAccess)) {
       console.warn('MIDI access not supported.', this.access);
+      this.access = null;
       return [];
     }
 
-    const inputIds = Array.from(this.access.inputs.keys());
+    for (const input of this.access.inputs.values()) {
+      this.attachInput(input);
+    }
+    for (const output of this.access.outputs.values()) {
+      if (output.name) this.deviceNames.set(output.id, output.name);
+    }
+    this.connectedInputIds = this.readConnectedIds(this.access.inputs);
+    this.connectedOutputIds = this.readConnectedIds(this.access.outputs);
+    this.access.onstatechange = (event) => this.handleStateChange(event as MIDIConnectionEvent);
+
+    return this.connectedInputIds;
+  }
+
+  setInputActive(id: string, active: boolean) {
+    const ids = new Set(this.activeMidiInputIds);
+    if (active) {
+      ids.add(id);
+    } else {
+      ids.delete(id);
+    }
+    this.activeMidiInputIds = ids;
+  }
+
+  getOutputIds(): string[] {
+    return this.connectedOutputIds;
+  }
+
+  setActiveOutput(id: string | null) {
+    this.activeMidiOutputId = id;
+  }
 
-    if (inputIds.length > 0 && this.activeMidiInputId === null) {
-      this.activeMidiInputId = inputIds[0];
+  /** Sends a raw message to the given output, the active output by default. */
+  send(data: number[], timestamp?: number, outputId: string | null = this.activeMidiOutputId): boolean {
+    const output = outputId && this.access ? this.access.outputs.get(outputId) : undefined;
+    if (!output || output.state !== 'connected') return false;
+    try {
+      output.send(data, timestamp);
+      return true;
+    } catch (e) {
+      console.warn('Error sending MIDI message:', e);
+      return false;
     }
+  }
 
-    for (const input of this.access.inputs.values()) {
-      input.onmidimessage = (event: MIDIMessageEvent) => {
-        if (input.id !== this.activeMidiInputId) return;
+  private attachInput(input: MIDIInput) {
+    if (input.name) {
+      this.deviceNames.set(input.id, input.name);
+    }
+    // New devices start active; a device seen before keeps the user's choice across replugs.
+    if (!this.seenInputIds.has(input.id)) {
+      this.seenInputIds.add(input.id);
+      this.setInputActive(input.id, true);
+    }
+    input.onmidimessage = (event: MIDIMessageEvent) => {
+      if (!this.activeMidiInputIds.has(input.id)) return;
+
+      const { data } = event;
+      if (!data) {
+        console.error('MIDI message has no data');
+        return;
+      }
+      this.handleMessage(data, input.id, event.timeStamp);
+    };
+  }
+
+  private readConnectedIds(ports: MIDIInputMap | MIDIOutputMap): string[] {
+    return Array.from<MIDIPort>(ports.values())
+      .filter((port) => port.state === 'connected')
+      .map((port) => port.id);
+  }
+
+  private handleStateChange(event: MIDIConnectionEvent) {
+    const { port } = event;
+    if (!port || !this.access) return;
+
+    if (port.type === 'input') {
+      if (port.state === 'connected') {
+        this.attachInput(port as MIDIInput);
+      } else {
+        (port as MIDIInput).onmidimessage = null;
+      }
+    } else if (port.name) {
+      this.deviceNames.set(port.id, port.name);
+    }
+
+    const previousIds = [...this.connectedInputIds, ...this.connectedOutputIds];
+    const inputIds = this.readConnectedIds(this.access.inputs);
+    const outputIds = this.readConnectedIds(this.access.outputs);
+    const currentIds = [...inputIds, ...outputIds];
+    const added = currentIds.filter((id) => !previousIds.includes(id));
+    const removed = previousIds.filter((id) => !currentIds.includes(id));
+    // Opening or closing an already-known port also fires statechange; only report real changes.
+    if (added.length === 0 && removed.length === 0) return;
+
+    this.connectedInputIds = inputIds;
+    this.connectedOutputIds = outputIds;
+    this.dispatchEvent(
+      new CustomEvent<MidiDevicesChange>('devices-changed', {
+        detail: { inputIds, outputIds, added, removed },
+      }),
+    );
+  }
 
-        const { data } = event;
-        if (!data) {
-          console.error('MIDI message has no data');
-          return;
-        }
+  private handleMessage(data: Uint8Array, deviceId: string, timestamp: number) {
+    const statusByte = data[0];
+    if (statusByte === CLOCK_STATUS) {
+      this.dispatchEvent(new CustomEvent<MidiClockTick>('clock', { detail: { timestamp, deviceId } }));
+      return;
+    }
+    const command = TRANSPORT_COMMANDS.get(statusByte);
+    if (command) {
+      this.dispatchEvent(new CustomEvent<MidiTransportMessage>('transport', { detail: { command, deviceId } }));
+      return;
+    }
+    const channel = statusByte & 0x0f;
+    const messageType = statusByte & 0xf0;
+
+    if (messageType === 0xb0) {
+      const isParameterData = this.trackHighRes(data[1], data[2], channel, deviceId);
+      // Data entry for a selected (N)RPN belongs to that parameter, not to a knob mapped to CC 6 or 38.
+      if (isParameterData) return;
+      const detail: ControlChange = { cc: data[1], value: data[2], channel, deviceId };
+      this.dispatchEvent(
+        new CustomEvent<ControlChange>('cc-message', { detail }),
+      );
+    } else if (messageType === 0x90 || messageType === 0x80) {
+      // A Note On with velocity 0 is commonly sent in place of a Note Off.
+      const velocity = data[2];
+      const type = messageType === 0x90 && velocity > 0 ? 'note-on' : 'note-off';
+      const detail: NoteMessage = { note: data[1], velocity, channel, deviceId };
+      this.dispatchEvent(new CustomEvent<NoteMessage>(type, { detail }));
+    } else if (messageType === 0xc0) {
+      const detail: ProgramChangeMessage = { program: data[1], channel, deviceId };
+      this.dispatchEvent(new CustomEvent<ProgramChangeMessage>('program-change', { detail }));
+    }
+  }
 
-        const statusByte = data[0];
-        const channel = statusByte & 0x0f;
-        const messageType = statusByte & 0xf0;
+  /**
+   * Pairs MSB/LSB CCs (0-31 with 32-63) and follows (N)RPN parameter
+   * selection, dispatching a `hires-message` whenever a 14-bit value changes.
+   * A CC only counts as 14-bit once its LSB has been seen, so plain 7-bit
+   * knobs don't produce 14-bit messages. As in the MIDI spec, a new MSB
+   * resets the LSB to 0. Returns whether the CC was data entry for a
+   * selected (N)RPN.
+   */
+  private trackHighRes(cc: number, value: number, channel: number, deviceId: string): boolean {
+    const key = `${deviceId}:${channel}`;
+    let state = this.highResStates.get(key);
+    if (!state) {
+      state = { msb: new Map(), pairedMsbCcs: new Set(), parameterKind: null, parameterMsb: 0x7f, parameterLsb: 0x7f };
+      this.highResStates.set(key, state);
+    }
 
-        const isControlChange = messageType === 0xb0;
-        if (!isControlChange) return;
+    if (cc === NRPN_MSB_CC || cc === NRPN_LSB_CC || cc === RPN_MSB_CC || cc === RPN_LSB_CC) {
+      state.parameterKind = cc === RPN_MSB_CC || cc === RPN_LSB_CC ? 'rpn' : 'nrpn';
+      if (cc === NRPN_MSB_CC || cc === RPN_MSB_CC) {
+        state.parameterMsb = value;
+      } else {
+        state.parameterLsb = value;
+      }
+      return false;
+    }
+    if (cc >= 64) return false;
 
-        const detail: ControlChange = { cc: data[1], value: data[2], channel };
-        this.dispatchEvent(
-          new CustomEvent<ControlChange>('cc-message', { detail }),
-        );
-      };
+    const msbCc = cc < 32 ? cc : cc - 32;
+    const parameter = (state.parameterMsb << 7) | state.parameterLsb;
+    const parameterKind = msbCc === DATA_ENTRY_CC && parameter !== NULL_PARAMETER ? state.parameterKind : null;
+    if (cc < 32) {
+      state.msb.set(cc, value);
+    } else if (parameterKind === null) {
+      state.pairedMsbCcs.add(msbCc);
     }
+    const msb = state.msb.get(msbCc);
+    if (msb === undefined) return parameterKind !== null;
+    const value14 = cc < 32 ? value << 7 : (msb << 7) | value;
 
-    return inputIds;
+    if (parameterKind !== null) {
+      const detail: HighResControlChange = { kind: parameterKind, number: parameter, value: value14, channel, deviceId };
+      this.dispatchEvent(new CustomEvent<HighResControlChange>('hires-message', { detail }));
+      return true;
+    }
+    if (state.pairedMsbCcs.has(msbCc)) {
+      const detail: HighResControlChange = { kind: 'cc14', number: msbCc, value: value14, channel, deviceId };
+      this.dispatchEvent(new CustomEvent<HighResControlChange>('hires-message', { detail }));
+    }
+    return false;
   }
 
+  /** Returns the device name, remembered even after the device was unplugged. */
   getDeviceName(id: string): string | null {
     if (!this.access) {
       return null;
     }
-    const input = this.access.inputs.get(id);
-    return input ? input.name : null;
+    const port = this.access.inputs.get(id) ?? this.access.outputs.get(id);
+    return port?.name ?? this.deviceNames.get(id) ?? null;
   }
 }
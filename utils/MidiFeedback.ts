@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { MidiDispatcher } from './MidiDispatcher';
+import type { PlaybackState, Prompt } from '../types';
+
+/** Minimum time between two flushes, so dragging a knob doesn't flood the port. */
+const FLUSH_INTERVAL_MS = 30;
+const PAD_ON_VELOCITY = 127;
+/** Most pad controllers show low velocities as a dim light or a secondary color. */
+const PAD_FILTERED_VELOCITY = 1;
+const TRANSPORT_LOADING_VELOCITY = 64;
+
+export interface TransportLed {
+  channel: number;
+  note: number;
+}
+
+/**
+ * Mirrors the app state onto a controller's LED rings and pad lights
+ * through the dispatcher's active MIDI output.
+ */
+export class MidiFeedback {
+  transportLed: TransportLed | null = null;
+
+  /** Last value sent per control, keyed by message kind, channel and number. */
+  private readonly lastSent = new Map<string, number>();
+  private readonly pending = new Map<string, number[]>();
+  private flushTimer: number | null = null;
+  private lastFlush = 0;
+
+  constructor(private readonly midiDispatcher: MidiDispatcher) {}
+
+  /** Queues messages for every mapped prompt whose LED state changed. */
+  update(prompts: Map<string, Prompt>, filteredPrompts: Set<string>) {
+    for (const prompt of prompts.values()) {
+      const filtered = filteredPrompts.has(prompt.text);
+      // (N)RPN rings would need a full parameter sequence per update; only CCs get feedback.
+      if (prompt.sourceType === 'knob' && prompt.cc >= 0 && (prompt.hiRes === undefined || prompt.hiRes === 'cc14')) {
+        const value = filtered ? 0 : Math.round((prompt.weight / 2) * 127);
+        this.queue('cc', prompt.channel, prompt.cc, value);
+      } else if (prompt.sourceType === 'button' && prompt.note !== undefined && prompt.note >= 0) {
+        const velocity = filtered ? PAD_FILTERED_VELOCITY : prompt.weight > 0 ? PAD_ON_VELOCITY : 0;
+        this.queue('note', prompt.channel, prompt.note, velocity);
+      }
+    }
+  }
+
+  updatePlaybackState(playbackState: PlaybackState) {
+    if (!this.transportLed) return;
+    const velocity = playbackState === 'playing' ? PAD_ON_VELOCITY
+      : playbackState === 'loading' ? TRANSPORT_LOADING_VELOCITY
+      : 0;
+    this.queue('note', this.transportLed.channel, this.transportLed.note, velocity);
+  }
+
+  /** Forgets what the device shows, so the next update re-sends the full state. */
+  reset() {
+    this.lastSent.clear();
+    this.pending.clear();
+  }
+
+  private queue(kind: 'cc' | 'note', channel: number, number: number, value: number) {
+    const key = `${kind}:${channel}:${number}`;
+    if (this.lastSent.get(key) === value) return;
+    this.lastSent.set(key, value);
+    const status = (kind === 'cc' ? 0xb0 : 0x90) | (channel & 0x0f);
+    this.pending.set(key, [status, number & 0x7f, value & 0x7f]);
+    this.scheduleFlush();
+  }
+
+  private scheduleFlush() {
+    if (this.flushTimer !== null) return;
+    const wait = Math.max(0, this.lastFlush + FLUSH_INTERVAL_MS - performance.now());
+    this.flushTimer = window.setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, wait);
+  }
+
+  private flush() {
+    this.lastFlush = performance.now();
+    for (const message of this.pending.values()) {
+      this.midiDispatcher.send(message);
+    }
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { MidiDispatcher } from './MidiDispatcher';
+import type { ControlChange, MidiBinding, NoteMessage } from '../types';
+
+/**
+ * A control that can be MIDI-learned. Continuous targets follow a CC's
+ * position (normalized to 0-1); trigger targets fire on a note or on a CC
+ * crossing its midpoint, as sent by most hardware buttons.
+ */
+export type LearnableTarget =
+  | { id: string; label: string; kind: 'continuous'; apply: (normalized: number) => void }
+  | { id: string; label: string; kind: 'trigger'; trigger: () => void };
+
+/** Keeps learnable controls and their MIDI bindings, and routes incoming MIDI to them. */
+export class MidiLearnRegistry extends EventTarget {
+  private readonly targets = new Map<string, LearnableTarget>();
+  private bindings = new Map<string, MidiBinding>();
+  /** Last CC value per binding, to detect button presses sent as CCs. */
+  private readonly lastCcValues = new Map<string, number>();
+  learningTargetId: string | null = null;
+
+  constructor(private readonly midiDispatcher: MidiDispatcher, bindings: MidiBinding[] = []) {
+    super();
+    this.setBindings(bindings);
+    midiDispatcher.addEventListener('cc-message', this.handleControlChange);
+    midiDispatcher.addEventListener('note-on', this.handleNoteOn);
+  }
+
+  register(target: LearnableTarget) {
+    this.targets.set(target.id, target);
+  }
+
+  getTarget(id: string): LearnableTarget | undefined {
+    return this.targets.get(id);
+  }
+
+  getBinding(targetId: string): MidiBinding | undefined {
+    return this.bindings.get(targetId);
+  }
+
+  getBindings(): MidiBinding[] {
+    return Array.from(this.bindings.values());
+  }
+
+  setBindings(bindings: MidiBinding[]) {
+    this.bindings = new Map(bindings.map((binding) => [binding.targetId, binding]));
+    this.lastCcValues.clear();
+    this.dispatchBindingsChange();
+  }
+
+  clearBinding(targetId: string) {
+    if (this.bindings.delete(targetId)) {
+      this.dispatchBindingsChange();
+    }
+  }
+
+  toggleLearn(targetId: string) {
+    this.learningTargetId = this.learningTargetId === targetId ? null : targetId;
+    this.dispatchBindingsChange();
+  }
+
+  cancelLearn() {
+    if (this.learningTargetId === null) return;
+    this.learningTargetId = null;
+    this.dispatchBindingsChange();
+  }
+
+  private handleControlChange = (e: Event) => {
+    const { channel, cc, value, deviceId } = (e as CustomEvent<ControlChange>).detail;
+    if (this.learningTargetId !== null) {
+      this.learn({ type: 'cc', channel, number: cc, deviceId });
+      return;
+    }
+    for (const binding of this.findBindings('cc', channel, cc, deviceId)) {
+      const target = this.targets.get(binding.targetId);
+      const previous = this.lastCcValues.get(binding.targetId) ?? 0;
+      this.lastCcValues.set(binding.targetId, value);
+      if (target?.kind === 'continuous') {
+        target.apply(value / 127);
+      } else if (target?.kind === 'trigger' && value >= 64 && previous < 64) {
+        target.trigger();
+      }
+    }
+  };
+
+  private handleNoteOn = (e: Event) => {
+    const { channel, note, deviceId } = (e as CustomEvent<NoteMessage>).detail;
+    if (this.learningTargetId !== null) {
+      // Notes carry no position, so only trigger targets can be learned from them.
+      if (this.targets.get(this.learningTargetId)?.kind !== 'trigger') return;
+      this.learn({ type: 'note', channel, number: note, deviceId });
+      return;
+    }
+    for (const binding of this.findBindings('note', channel, note, deviceId)) {
+      const target = this.targets.get(binding.targetId);
+      if (target?.kind === 'trigger') target.trigger();
+    }
+  };
+
+  private learn(source: Omit<MidiBinding, 'targetId' | 'deviceId'> & { deviceId: string }) {
+    const targetId = this.learningTargetId!;
+    this.bindings.set(targetId, {
+      ...source,
+      targetId,
+      deviceId: this.midiDispatcher.lockLearnToDevice ? source.deviceId : null,
+    });
+    this.learningTargetId = null;
+    this.dispatchBindingsChange();
+  }
+
+  private findBindings(type: MidiBinding['type'], channel: number, number: number, deviceId: string) {
+    return Array.from(this.bindings.values()).filter((binding) =>
+      binding.type === type &&
+      binding.channel === channel &&
+      binding.number === number &&
+      (binding.deviceId === null || binding.deviceId === deviceId));
+  }
+
+  private dispatchBindingsChange() {
+    this.dispatchEvent(
+      new CustomEvent<MidiBinding[]>('bindings-changed', { detail: this.getBindings() }),
+    );
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { LiveMusicServerMessage, type LiveMusicCallbacks, type LiveMusicServerSetupComplete, type LiveMusicSetWeightedPromptsParameters } from '@google/genai';
+import { encode } from './audio';
+import type { MusicSession, MusicSessionProvider } from './musicSession';
+import type { LiveMusicGenerationConfig } from '../types';
+
+const SAMPLE_RATE = 48000;
+const NUM_CHANNELS = 2;
+const CHUNK_SECONDS = 1;
+/** Chunks sent right away on play, like the real server filling the client's buffer. */
+const INITIAL_CHUNKS = 2;
+/** Simulated network round trip for every message. */
+const LATENCY_MS = 50;
+/** Chance that a prompt text the mock hasn't seen yet gets filtered. */
+const FILTER_PROBABILITY = 0.05;
+/** Texts containing this marker are always filtered, for exercising the filtered-prompt path on purpose. */
+const FILTER_MARKER = '[filtered]';
+/** A minor pentatonic over two octaves from A2, in Hz. */
+const PITCHES = [110, 130.81, 146.83, 164.81, 196, 220, 261.63, 293.66, 329.63, 392];
+const MAX_VOICES = 4;
+
+function pitchForText(text: string): number {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  }
+  return PITCHES[Math.abs(hash) % PITCHES.length];
+}
+
+/**
+ * An in-process stand-in for a Lyria session, for working without network
+ * or an API key. It streams a synthetic 16-bit PCM drone whose voices follow
+ * the weighted prompts, with a kick on every beat of the current BPM, and
+ * now and then filters a prompt like the real service does.
+ */
+export class MockMusicSession implements MusicSession {
+  private weightedPrompts: { text: string; weight: number }[] = [];
+  private bpm = 120;
+  private config: LiveMusicGenerationConfig = {};
+  private readonly seenTexts = new Set<string>();
+  private readonly filteredTexts = new Set<string>();
+  private chunkTimer: number | null = null;
+  /** Frames rendered since the last stop, so phases and beats carry across chunks. */
+  private framePosition = 0;
+  private closed = false;
+
+  constructor(private readonly callbacks: LiveMusicCallbacks) {
+    this.emit({ setupComplete: { sampleRateHertz: SAMPLE_RATE, channels: NUM_CHANNELS } as LiveMusicServerSetupComplete });
+  }
+
+  async setWeightedPrompts({ weightedPrompts }: LiveMusicSetWeightedPromptsParameters) {
+    this.assertOpen();
+    for (const { text } of weightedPrompts) {
+      if (!text || this.seenTexts.has(text)) continue;
+      this.seenTexts.add(text);
+      if (text.includes(FILTER_MARKER) || Math.random() < FILTER_PROBABILITY) {
+        this.filteredTexts.add(text);
+        this.emit({ filteredPrompt: { text, filteredReason: `Prompt "${text}" was filtered by the mock session.` } });
+      }
+    }
+    this.weightedPrompts = weightedPrompts
+      .filter((p) => p.text && !this.filteredTexts.has(p.text) && (p.weight ?? 0) > 0)
+      .map((p) => ({ text: p.text!, weight: p.weight! }));
+  }
+
+  async setBpm({ bpm }: { bpm: number }) {
+    this.assertOpen();
+    this.bpm = bpm;
+  }
+
+  async setMusicGenerationConfig({ musicGenerationConfig }: { musicGenerationConfig: LiveMusicGenerationConfig }) {
+    this.assertOpen();
+    this.config = { ...musicGenerationConfig };
+  }
+
+  play() {
+    if (this.closed || this.chunkTimer !== null) return;
+    for (let i = 0; i < INITIAL_CHUNKS; i++) this.sendChunk();
+    this.chunkTimer = window.setInterval(() => this.sendChunk(), CHUNK_SECONDS * 1000);
+  }
+
+  pause() {
+    if (this.chunkTimer === null) return;
+    window.clearInterval(this.chunkTimer);
+    this.chunkTimer = null;
+  }
+
+  stop() {
+    this.pause();
+    this.framePosition = 0;
+  }
+
+  close() {
+    if (this.closed) return;
+    this.stop();
+    this.closed = true;
+    setTimeout(() => this.callbacks.onclose?.(new CloseEvent('close', { code: 1000, reason: 'Closed by client' })), LATENCY_MS);
+  }
+
+  private assertOpen() {
+    if (this.closed) throw new Error('Mock session is closed');
+  }
+
+  private emit(fields: Partial<LiveMusicServerMessage>) {
+    const message = Object.assign(new LiveMusicServerMessage(), fields);
+    setTimeout(() => {
+      if (!this.closed) this.callbacks.onmessage(message);
+    }, LATENCY_MS);
+  }
+
+  private sendChunk() {
+    const pcm = this.renderChunk();
+    this.emit({ serverContent: { audioChunks: [{ data: encode(new Uint8Array(pcm.buffer)), mimeType: `audio/l16;rate=${SAMPLE_RATE};channels=${NUM_CHANNELS}` }] } });
+  }
+
+  private renderChunk(): Int16Array {
+    const frames = SAMPLE_RATE * CHUNK_SECONDS;
+    const samples = new Int16Array(frames * NUM_CHANNELS);
+    const totalWeight = this.weightedPrompts.reduce((sum, p) => sum + p.weight, 0);
+    const voices = [...this.weightedPrompts]
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, MAX_VOICES)
+      .map((p) => ({ frequency: pitchForText(p.text), gain: totalWeight > 0 ? p.weight / totalWeight : 0 }))
+      .filter((v) => !(this.config.muteBass && v.frequency < 150));
+    const brightness = this.config.brightness ?? 0.5;
+    const framesPerBeat = (SAMPLE_RATE * 60) / this.bpm;
+
+    for (let i = 0; i < frames; i++) {
+      const t = (this.framePosition + i) / SAMPLE_RATE;
+      let value = 0;
+      for (const { frequency, gain } of voices) {
+        const phase = 2 * Math.PI * frequency * t;
+        value += gain * (Math.sin(phase) + brightness * 0.3 * Math.sin(2 * phase));
+      }
+      value *= 0.25;
+      if (!this.config.muteDrums) {
+        const sinceBeat = ((this.framePosition + i) % framesPerBeat) / SAMPLE_RATE;
+        if (sinceBeat < 0.12) {
+          value += 0.5 * Math.exp(-sinceBeat * 40) * Math.sin(2 * Math.PI * (60 - sinceBeat * 200) * sinceBeat);
+        }
+      }
+      const sample = Math.max(-1, Math.min(1, value)) * 32767;
+      for (let channel = 0; channel < NUM_CHANNELS; channel++) {
+        samples[i * NUM_CHANNELS + channel] = sample;
+      }
+    }
+    this.framePosition += frames;
+    return samples;
+  }
+}
+
+export function createMockSessionProvider(): MusicSessionProvider {
+  return async (callbacks) => new MockMusicSession(callbacks);
+}
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Scene } from '../types';
+
+const DB_NAME = 'prompt-dj-midi';
+const DB_VERSION = 1;
+const SCENES_STORE = 'scenes';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Persists the scene bank in IndexedDB. */
+export class SceneStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(SCENES_STORE)) {
+          request.result.createObjectStore(SCENES_STORE, { keyPath: 'id' });
+        }
+      };
+      this.db = promisify(request).catch((error) => {
+        this.db = null;
+        throw error;
+      });
+    }
+    return this.db;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(SCENES_STORE, mode).objectStore(SCENES_STORE);
+  }
+
+  /** Returns all scenes, oldest first. */
+  async getAll(): Promise<Scene[]> {
+    const scenes = await promisify<Scene[]>((await this.store('readonly')).getAll());
+    return scenes.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async put(scene: Scene): Promise<void> {
+    await promisify((await this.store('readwrite')).put(scene));
+  }
+
+  async delete(id: string): Promise<void> {
+    await promisify((await this.store('readwrite')).delete(id));
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Changes to the same control closer together than this merge into one step. */
+const COALESCE_MS = 1000;
+const MAX_ENTRIES = 100;
+
+export interface HistoryEntry<T> {
+  label: string;
+  state: T;
+  time: number;
+  /** Identifies the control that produced the change, for coalescing drags. */
+  coalesceKey: string | null;
+}
+
+/**
+ * A linear undo/redo stack of full state snapshots. Each entry holds the
+ * state after a change; the first entry is the starting state.
+ */
+export class UndoHistory<T> extends EventTarget {
+  private entries: HistoryEntry<T>[] = [];
+  private index = -1;
+
+  get canUndo() {
+    return this.index > 0;
+  }
+
+  get canRedo() {
+    return this.index < this.entries.length - 1;
+  }
+
+  get currentIndex() {
+    return this.index;
+  }
+
+  getEntries(): readonly HistoryEntry<T>[] {
+    return this.entries;
+  }
+
+  /** Starts over with a single entry holding the initial state. */
+  reset(label: string, state: T) {
+    this.entries = [{ label, state, time: Date.now(), coalesceKey: null }];
+    this.index = 0;
+    this.dispatchChange();
+  }
+
+  /**
+   * Records the state after a change. A change with the same coalesce key as
+   * the previous one, made shortly after it, replaces that entry instead.
+   */
+  record(label: string, state: T, coalesceKey: string | null = null) {
+    if (this.index < 0) return;
+    const now = Date.now();
+    const last = this.entries[this.index];
+    // Re-sent but unchanged state (e.g. settings re-applied on play) is not a step.
+    if (JSON.stringify(state) === JSON.stringify(last.state)) return;
+    // Drop the redo branch.
+    this.entries.length = this.index + 1;
+    if (coalesceKey !== null && last.coalesceKey === coalesceKey && now - last.time < COALESCE_MS && this.index > 0) {
+      this.entries[this.index] = { label, state, time: now, coalesceKey };
+    } else {
+      this.entries.push({ label, state, time: now, coalesceKey });
+      if (this.entries.length > MAX_ENTRIES) this.entries.shift();
+      this.index = this.entries.length - 1;
+    }
+    this.dispatchChange();
+  }
+
+  undo(): T | null {
+    return this.canUndo ? this.jumpTo(this.index - 1) : null;
+  }
+
+  redo(): T | null {
+    return this.canRedo ? this.jumpTo(this.index + 1) : null;
+  }
+
+  jumpTo(index: number): T | null {
+    const entry = this.entries[index];
+    if (!entry) return null;
+    this.index = index;
+    // A later change, even to the same control, must start a new step.
+    entry.coalesceKey = null;
+    this.dispatchChange();
+    return entry.state;
+  }
+
+  private dispatchChange() {
+    this.dispatchEvent(new Event('history-changed'));
+  }
+}
@@ -23,9 +23,8 @@ export function decode(base64: string): Uint8Array {
   }
 }
 
-// This is a helper function to convert Uint8Array to base64 
-// (Not currently imported by index.tsx but kept for potential utility)
-function encode(bytes: Uint8Array): string {
+// This is a helper function to convert Uint8Array to base64
+export function encode(bytes: Uint8Array): string {
   let binary = '';
   const len = bytes.byteLength;
   for (let i = 0; i < len; i++) {
@@ -34,6 +33,27 @@ function encode(bytes: Uint8Array): string {
   return btoa(binary);
 }
 
+export interface AudioFormat {
+  /** The bare type, lower-cased, e.g. `audio/l16`. */
+  type: string;
+  sampleRate: number | null;
+  channels: number | null;
+}
+
+/** Reads the type and the `rate`/`channels` parameters from a mime type like `audio/l16;rate=48000;channels=2`. */
+export function parseAudioMimeType(mimeType: string): AudioFormat {
+  const [type, ...params] = mimeType.split(';').map((part) => part.trim());
+  const format: AudioFormat = { type: type.toLowerCase(), sampleRate: null, channels: null };
+  for (const param of params) {
+    const [key, value] = param.split('=').map((part) => part.trim().toLowerCase());
+    const number = Number(value);
+    if (!Number.isFinite(number)) continue;
+    if (key === 'rate') format.sampleRate = number;
+    if (key === 'channels') format.channels = number;
+  }
+  return format;
+}
+
 export async function decodeAudioData(
   data: Uint8Array,
   ctx: AudioContext,
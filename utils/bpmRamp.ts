@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type RampUnit = 'bars' | 'seconds';
+
+const BEATS_PER_BAR = 4;
+const STEP_INTERVAL_MS = 100;
+
+/**
+ * Converts a ramp length to seconds. In bars, the tempo changes linearly
+ * over time, so the average tempo is the midpoint of the two BPMs.
+ */
+export function rampDurationSeconds(amount: number, unit: RampUnit, fromBpm: number, toBpm: number): number {
+  if (unit === 'seconds') return amount;
+  return (amount * BEATS_PER_BAR * 60 * 2) / (fromBpm + toBpm);
+}
+
+/** Interpolates a BPM linearly from one value to another, reporting each step. */
+export class BpmRamp {
+  private from = 0;
+  private to = 0;
+  private durationMs = 0;
+  private startedAt = 0;
+  /** Time already ramped before the current run, accumulated across pauses. */
+  private elapsedBeforePauseMs = 0;
+  private timer: number | null = null;
+  private active = false;
+
+  constructor(
+    private readonly onStep: (bpm: number, progress: number) => void,
+    /** Called when the ramp stops; `completed` is false when it was cancelled. */
+    private readonly onEnd: (completed: boolean) => void,
+  ) {}
+
+  get isActive() {
+    return this.active;
+  }
+
+  get isPaused() {
+    return this.active && this.timer === null;
+  }
+
+  start(from: number, to: number, durationSeconds: number) {
+    this.stopTimer();
+    this.from = from;
+    this.to = to;
+    this.durationMs = Math.max(0, durationSeconds * 1000);
+    this.elapsedBeforePauseMs = 0;
+    this.active = true;
+    this.resume();
+  }
+
+  pause() {
+    if (!this.active || this.timer === null) return;
+    this.elapsedBeforePauseMs += performance.now() - this.startedAt;
+    this.stopTimer();
+  }
+
+  resume() {
+    if (!this.active || this.timer !== null) return;
+    this.startedAt = performance.now();
+    this.timer = window.setInterval(() => this.step(), STEP_INTERVAL_MS);
+    this.step();
+  }
+
+  cancel() {
+    if (!this.active) return;
+    this.stopTimer();
+    this.active = false;
+    this.onEnd(false);
+  }
+
+  private step() {
+    const elapsed = this.elapsedBeforePauseMs + performance.now() - this.startedAt;
+    const progress = this.durationMs === 0 ? 1 : Math.min(1, elapsed / this.durationMs);
+    this.onStep(this.from + (this.to - this.from) * progress, progress);
+    if (progress >= 1) {
+      this.stopTimer();
+      this.active = false;
+      this.onEnd(true);
+    }
+  }
+
+  private stopTimer() {
+    if (this.timer !== null) {
+      window.clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
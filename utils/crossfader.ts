@@ -0,0 +1,23 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type CrossfaderCurve = 'linear' | 'constant-power' | 'cut';
+export type Deck = 'A' | 'B';
+
+/** How far from an end the cut curve brings the other deck in fully. */
+const CUT_ZONE = 0.05;
+
+/** Returns the [deck A, deck B] gains for a crossfader position from 0 (full A) to 1 (full B). */
+export function crossfaderGains(position: number, curve: CrossfaderCurve): [number, number] {
+  const x = Math.max(0, Math.min(1, position));
+  switch (curve) {
+    case 'constant-power':
+      return [Math.cos((x * Math.PI) / 2), Math.sin((x * Math.PI) / 2)];
+    case 'cut':
+      return [x >= 1 - CUT_ZONE ? 0 : 1, x <= CUT_ZONE ? 0 : 1];
+    default:
+      return [1 - x, x];
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { isNumberInRange, isObject } from './validation';
+import type { LiveMusicGenerationConfig } from '../types';
+
+/** Scale names shown in the settings panel, mapped to the enum values Lyria accepts. */
+export const SCALES = new Map<string, string>([
+  ['Auto', 'SCALE_UNSPECIFIED'],
+  ['C Major / A Minor', 'C_MAJOR_A_MINOR'],
+  ['C# / Db Major / A# / Bb Minor', 'D_FLAT_MAJOR_B_FLAT_MINOR'],
+  ['D Major / B Minor', 'D_MAJOR_B_MINOR'],
+  ['D# / Eb Major / C Minor', 'E_FLAT_MAJOR_C_MINOR'],
+  ['E Major / C# / Db Minor', 'E_MAJOR_D_FLAT_MINOR'],
+  ['F Major / D Minor', 'F_MAJOR_D_MINOR'],
+  ['F# / Gb Major / D# / Eb Minor', 'G_FLAT_MAJOR_E_FLAT_MINOR'],
+  ['G Major / E Minor', 'G_MAJOR_E_MINOR'],
+  ['G# / Ab Major / F Minor', 'A_FLAT_MAJOR_F_MINOR'],
+  ['A Major / F# / Gb Minor', 'A_MAJOR_G_FLAT_MINOR'],
+  ['A# / Bb Major / G Minor', 'B_FLAT_MAJOR_G_MINOR'],
+  ['B Major / G# / Ab Minor', 'B_MAJOR_A_FLAT_MINOR'],
+]);
+
+/** The range each numeric setting accepts, matching the settings panel. */
+const NUMERIC_RANGES = {
+  temperature: [0, 2],
+  topK: [1, 100],
+  topP: [0, 1],
+  guidance: [1, 10],
+  bpm: [60, 240],
+  seed: [0, Number.MAX_SAFE_INTEGER],
+  density: [0, 1],
+  brightness: [0, 1],
+} as const;
+
+const BOOLEAN_KEYS = ['muteBass', 'muteDrums', 'onlyBassAndDrums'] as const;
+
+/**
+ * Keeps only the generation settings that are known and valid, for configs
+ * coming from files or links. Anything else is dropped rather than sent on
+ * to the session.
+ */
+export function sanitizeGenerationConfig(data: unknown): LiveMusicGenerationConfig {
+  const config: LiveMusicGenerationConfig = {};
+  if (!isObject(data)) return config;
+  for (const key of Object.keys(NUMERIC_RANGES) as (keyof typeof NUMERIC_RANGES)[]) {
+    const [min, max] = NUMERIC_RANGES[key];
+    const value = data[key];
+    if (isNumberInRange(value, min, max)) config[key] = value;
+  }
+  for (const key of BOOLEAN_KEYS) {
+    if (typeof data[key] === 'boolean') config[key] = data[key];
+  }
+  if (typeof data.scale === 'string' && [...SCALES.values()].includes(data.scale)) {
+    config.scale = data.scale;
+  }
+  return config;
+}
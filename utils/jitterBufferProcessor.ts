@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export const JITTER_BUFFER_PROCESSOR = 'jitter-buffer-processor';
+
+/**
+ * Source of the AudioWorklet processor behind `JitterBuffer`. Worklet modules
+ * are loaded by URL, so it ships as a string and is loaded from a Blob URL.
+ *
+ * The processor keeps decoded PCM in a stereo ring buffer. It waits until the
+ * buffer holds the target latency before playing, and when it runs dry it
+ * plays the last few milliseconds backwards with a fade-out instead of
+ * cutting to silence, raises the target and buffers up again, fading back in.
+ * Long stretches without underruns lower the target again.
+ */
+export const JITTER_BUFFER_PROCESSOR_SOURCE = `
+const CHANNELS = 2;
+/** Length of the underrun concealment tail and of the fade back in, in frames. */
+const CONCEAL_FRAMES = 2048;
+const FADE_IN_FRAMES = 256;
+const TARGET_GROWTH = 1.5;
+const TARGET_SHRINK = 0.9;
+const STABLE_SECONDS = 60;
+const METRICS_INTERVAL_SECONDS = 0.25;
+
+class JitterBufferProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { capacitySeconds, targetSeconds, minTargetSeconds, maxTargetSeconds } = options.processorOptions;
+    this.capacity = Math.round(capacitySeconds * sampleRate);
+    this.ring = Array.from({ length: CHANNELS }, () => new Float32Array(this.capacity));
+    this.readIndex = 0;
+    this.fill = 0;
+    this.target = Math.round(targetSeconds * sampleRate);
+    this.minTarget = Math.round(minTargetSeconds * sampleRate);
+    this.maxTarget = Math.round(maxTargetSeconds * sampleRate);
+    this.state = 'idle';
+    this.underruns = 0;
+    this.overflows = 0;
+    this.framesSinceUnderrun = 0;
+    // The last frames played, for concealment.
+    this.history = Array.from({ length: CHANNELS }, () => new Float32Array(CONCEAL_FRAMES));
+    this.historyIndex = 0;
+    this.conceal = null;
+    this.concealPosition = 0;
+    this.fadeInRemaining = 0;
+    this.framesSinceMetrics = 0;
+    this.port.onmessage = (event) => this.handleMessage(event.data);
+  }
+
+  handleMessage(message) {
+    if (message.type === 'push') {
+      this.write(message.channels);
+    } else if (message.type === 'reset') {
+      if (this.state === 'playing') this.startConcealment();
+      this.fill = 0;
+      this.state = 'idle';
+      this.postMetrics();
+    }
+  }
+
+  write(channels) {
+    const frames = channels[0].length;
+    if (frames > this.capacity) return;
+    const overflow = this.fill + frames - this.capacity;
+    if (overflow > 0) {
+      // Too far ahead; drop the oldest audio rather than the newest.
+      this.readIndex = (this.readIndex + overflow) % this.capacity;
+      this.fill -= overflow;
+      this.overflows++;
+    }
+    let writeIndex = (this.readIndex + this.fill) % this.capacity;
+    for (let i = 0; i < frames; i++) {
+      for (let c = 0; c < CHANNELS; c++) {
+        this.ring[c][writeIndex] = channels[Math.min(c, channels.length - 1)][i];
+      }
+      writeIndex = (writeIndex + 1) % this.capacity;
+    }
+    this.fill += frames;
+    if (this.state === 'idle') this.state = 'buffering';
+  }
+
+  startConcealment() {
+    // Unroll the history so index 0 is the most recent frame; playing it in that order mirrors the waveform.
+    this.conceal = this.history.map((channel) => {
+      const tail = new Float32Array(CONCEAL_FRAMES);
+      for (let i = 0; i < CONCEAL_FRAMES; i++) {
+        tail[i] = channel[(this.historyIndex - 1 - i + CONCEAL_FRAMES) % CONCEAL_FRAMES];
+      }
+      return tail;
+    });
+    this.concealPosition = 0;
+  }
+
+  process(inputs, outputs) {
+    const output = outputs[0];
+    const frames = output[0].length;
+
+    if (this.state === 'buffering' && this.fill >= Math.min(this.target, this.capacity)) {
+      this.state = 'playing';
+      this.fadeInRemaining = FADE_IN_FRAMES;
+      this.port.postMessage({ type: 'started', time: currentTime });
+    }
+
+    for (let i = 0; i < frames; i++) {
+      if (this.state === 'playing' && this.fill === 0) {
+        this.underruns++;
+        this.framesSinceUnderrun = 0;
+        this.target = Math.min(this.maxTarget, Math.round(this.target * TARGET_GROWTH));
+        this.state = 'buffering';
+        this.startConcealment();
+      }
+      if (this.state === 'playing') {
+        const gain = this.fadeInRemaining > 0 ? 1 - this.fadeInRemaining-- / FADE_IN_FRAMES : 1;
+        for (let c = 0; c < CHANNELS; c++) {
+          const sample = this.ring[c][this.readIndex] * gain;
+          this.history[c][this.historyIndex] = sample;
+          if (output[c]) output[c][i] = sample;
+        }
+        this.historyIndex = (this.historyIndex + 1) % CONCEAL_FRAMES;
+        this.readIndex = (this.readIndex + 1) % this.capacity;
+        this.fill--;
+      } else if (this.conceal && this.concealPosition < CONCEAL_FRAMES) {
+        const gain = 1 - this.concealPosition / CONCEAL_FRAMES;
+        for (let c = 0; c < CHANNELS; c++) {
+          if (output[c]) output[c][i] = this.conceal[c][this.concealPosition] * gain;
+        }
+        this.concealPosition++;
+      } else {
+        for (let c = 0; c < output.length; c++) output[c][i] = 0;
+      }
+    }
+
+    if (this.state === 'playing') {
+      this.framesSinceUnderrun += frames;
+      if (this.framesSinceUnderrun >= STABLE_SECONDS * sampleRate && this.target > this.minTarget) {
+        this.target = Math.max(this.minTarget, Math.round(this.target * TARGET_SHRINK));
+        this.framesSinceUnderrun = 0;
+      }
+    }
+
+    this.framesSinceMetrics += frames;
+    if (this.framesSinceMetrics >= METRICS_INTERVAL_SECONDS * sampleRate) {
+      this.postMetrics();
+    }
+    return true;
+  }
+
+  postMetrics() {
+    this.framesSinceMetrics = 0;
+    this.port.postMessage({
+      type: 'metrics',
+      metrics: {
+        state: this.state,
+        fillSeconds: this.fill / sampleRate,
+        targetSeconds: this.target / sampleRate,
+        capacitySeconds: this.capacity / sampleRate,
+        underruns: this.underruns,
+        overflows: this.overflows,
+      },
+    });
+  }
+}
+
+registerProcessor('${JITTER_BUFFER_PROCESSOR}', JitterBufferProcessor);
+`;
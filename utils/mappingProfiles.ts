@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { downloadJson, toFileName } from './download';
+import { isNumberInRange, isObject } from './validation';
+import type { EncoderConfig, HighResKind, MappingProfile, MidiBinding, Prompt, PromptMapping, TakeoverMode } from '../types';
+
+const STORAGE_KEY = 'mappingProfiles';
+const TAKEOVER_MODES: TakeoverMode[] = ['jump', 'pickup', 'scale'];
+const ENCODER_MODES: EncoderConfig['mode'][] = ['absolute', 'twos-complement', 'binary-offset', 'sign-magnitude'];
+const HIGH_RES_KINDS: HighResKind[] = ['cc14', 'nrpn', 'rpn'];
+
+export function captureMappingProfile(
+  name: string,
+  deviceName: string | null,
+  prompts: Map<string, Prompt>,
+  bindings: MidiBinding[],
+): MappingProfile {
+  const promptMappings: Record<string, PromptMapping> = {};
+  for (const { promptId, cc, note, channel, deviceId, takeover, encoder, hiRes } of prompts.values()) {
+    promptMappings[promptId] = { cc, note, channel, deviceId, takeover, encoder, hiRes };
+  }
+  return { name, deviceName, prompts: promptMappings, bindings: bindings.map((binding) => ({ ...binding })) };
+}
+
+/** Returns a copy of the prompts with the profile's mappings applied; prompts it doesn't mention are kept. */
+export function applyMappingProfile(profile: MappingProfile, prompts: Map<string, Prompt>): Map<string, Prompt> {
+  const result = new Map<string, Prompt>();
+  for (const [promptId, prompt] of prompts) {
+    const mapping = profile.prompts[promptId];
+    if (!mapping) {
+      result.set(promptId, prompt);
+      continue;
+    }
+    const { cc, note, channel, deviceId, takeover, encoder, hiRes } = mapping;
+    result.set(promptId, { ...prompt, cc, note, channel, deviceId: deviceId ?? null, takeover, encoder, hiRes });
+  }
+  return result;
+}
+
+/** Finds the profile made for a device, matching its name case-insensitively. */
+export function findProfileForDevice(profiles: MappingProfile[], deviceName: string): MappingProfile | undefined {
+  const name = deviceName.toLowerCase();
+  return profiles.find((profile) => profile.deviceName !== null && name.includes(profile.deviceName.toLowerCase()));
+}
+
+/** Downloads the profile as a JSON file. Port ids only mean something in this browser, so they are left out. */
+export function exportMappingProfile(profile: MappingProfile) {
+  const portable: MappingProfile = {
+    ...profile,
+    prompts: Object.fromEntries(
+      Object.entries(profile.prompts).map(([promptId, mapping]) => [promptId, { ...mapping, deviceId: null }]),
+    ),
+    bindings: profile.bindings.map((binding) => ({ ...binding, deviceId: null })),
+  };
+  downloadJson(`${toFileName(profile.name)}.midimap.json`, portable);
+}
+
+/** Parses an exported profile, throwing if the JSON is not a mapping profile. */
+export function parseMappingProfile(json: string): MappingProfile {
+  return validateMappingProfile(JSON.parse(json));
+}
+
+function invalidPromptMapping(): never {
+  throw new Error('Mapping profile has an invalid prompt mapping.');
+}
+
+/** Checks one prompt mapping and returns just its mapping fields, so a profile can't touch prompt texts or weights. */
+export function validatePromptMapping(data: unknown): PromptMapping {
+  if (!isObject(data) || !isNumberInRange(data.cc, 0, 16383) || !isNumberInRange(data.channel, 0, 15)) {
+    invalidPromptMapping();
+  }
+  const { cc, channel, note, deviceId, takeover, encoder, hiRes } = data;
+  if (note !== undefined && !isNumberInRange(note, -1, 127)) invalidPromptMapping();
+  if (deviceId !== undefined && deviceId !== null && typeof deviceId !== 'string') invalidPromptMapping();
+  if (takeover !== undefined && !TAKEOVER_MODES.includes(takeover as TakeoverMode)) invalidPromptMapping();
+  if (hiRes !== undefined && !HIGH_RES_KINDS.includes(hiRes as HighResKind)) invalidPromptMapping();
+  if (encoder !== undefined && (
+    !isObject(encoder) || !ENCODER_MODES.includes(encoder.mode as EncoderConfig['mode']) ||
+    !isNumberInRange(encoder.sensitivity, 0, 2) || !isNumberInRange(encoder.acceleration, 0, 1)
+  )) {
+    invalidPromptMapping();
+  }
+  return {
+    cc,
+    note,
+    channel,
+    deviceId: deviceId ?? null,
+    takeover: takeover as TakeoverMode | undefined,
+    encoder: encoder && {
+      mode: encoder.mode as EncoderConfig['mode'],
+      sensitivity: encoder.sensitivity as number,
+      acceleration: encoder.acceleration as number,
+    },
+    hiRes: hiRes as HighResKind | undefined,
+  };
+}
+
+function validateBinding(data: unknown): MidiBinding {
+  if (!isObject(data) || typeof data.targetId !== 'string' || (data.type !== 'cc' && data.type !== 'note') ||
+      !isNumberInRange(data.channel, 0, 15) || !isNumberInRange(data.number, 0, 127) ||
+      (data.deviceId !== undefined && data.deviceId !== null && typeof data.deviceId !== 'string')) {
+    throw new Error('Mapping profile has an invalid binding.');
+  }
+  const { targetId, type, channel, number, deviceId } = data;
+  return { targetId, type, channel, number, deviceId: deviceId ?? null };
+}
+
+/** Validates a parsed profile and returns a clean copy holding only the fields a profile may set. */
+export function validateMappingProfile(data: unknown): MappingProfile {
+  if (
+    !isObject(data) ||
+    typeof data.name !== 'string' || data.name.trim() === '' ||
+    (data.deviceName !== null && typeof data.deviceName !== 'string') ||
+    !isObject(data.prompts) ||
+    !Array.isArray(data.bindings)
+  ) {
+    throw new Error('Not a MIDI mapping profile.');
+  }
+  const prompts: Record<string, PromptMapping> = {};
+  for (const [promptId, mapping] of Object.entries(data.prompts)) {
+    prompts[promptId] = validatePromptMapping(mapping);
+  }
+  return { name: data.name, deviceName: data.deviceName, prompts, bindings: data.bindings.map(validateBinding) };
+}
+
+export function getStoredMappingProfiles(): MappingProfile[] {
+  const stored = window.localStorage.getItem(STORAGE_KEY);
+  if (!stored) return [];
+  try {
+    const profiles = JSON.parse(stored);
+    return Array.isArray(profiles) ? profiles as MappingProfile[] : [];
+  } catch (e) {
+    console.error('Failed to parse stored mapping profiles', e);
+    return [];
+  }
+}
+
+export function setStoredMappingProfiles(profiles: MappingProfile[]) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+}
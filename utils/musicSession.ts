@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { GoogleGenAI, LiveMusicCallbacks, LiveMusicSetWeightedPromptsParameters } from '@google/genai';
+import type { LiveMusicGenerationConfig } from '../types';
+import { SessionError } from './sessionErrors';
+
+/**
+ * The part of a Lyria live music session the app relies on. The real
+ * `LiveMusicSession` satisfies it, plus `setBpm` which Lyria accepts but the
+ * SDK types don't declare yet.
+ */
+export interface MusicSession {
+  setWeightedPrompts(params: LiveMusicSetWeightedPromptsParameters): Promise<void>;
+  setBpm(params: { bpm: number }): Promise<void>;
+  setMusicGenerationConfig(params: { musicGenerationConfig: LiveMusicGenerationConfig }): Promise<void>;
+  play(): void;
+  pause(): void;
+  stop(): void;
+  close(): void;
+}
+
+/** Opens a music session whose server messages are delivered through `callbacks`. */
+export type MusicSessionProvider = (callbacks: LiveMusicCallbacks) => Promise<MusicSession>;
+
+/** Connects to the hosted Lyria model. Without a client (no API key) every connect fails as an auth error. */
+export function createLyriaSessionProvider(ai: GoogleGenAI | null, model: string): MusicSessionProvider {
+  return async (callbacks) => {
+    if (!ai) throw new SessionError('auth', 'No API key set.');
+    return (await ai.live.music.connect({ model, callbacks })) as unknown as MusicSession;
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { EncoderConfig, EncoderMode } from '../types';
+
+/** Ticks arriving faster than this are considered a fast turn. */
+const ACCELERATION_WINDOW_MS = 120;
+/** Extra multiplier reached at full acceleration on the fastest turns. */
+const MAX_ACCELERATION_BOOST = 4;
+
+export const DEFAULT_ENCODER_CONFIG: EncoderConfig = {
+  mode: 'absolute',
+  sensitivity: 0.01,
+  acceleration: 0,
+};
+
+/** Decodes a relative CC value into a signed number of ticks. */
+export function decodeRelativeTicks(mode: Exclude<EncoderMode, 'absolute'>, value: number): number {
+  switch (mode) {
+    case 'twos-complement':
+      // 1..63 up, 127..64 down (127 = -1).
+      return value < 64 ? value : value - 128;
+    case 'binary-offset':
+      // 64 is rest: 65 = +1, 63 = -1.
+      return value - 64;
+    case 'sign-magnitude':
+      // Bit 6 is the sign: 1 = +1, 65 = -1.
+      return value & 0x40 ? -(value & 0x3f) : value & 0x3f;
+  }
+}
+
+/**
+ * Converts a relative encoder message into a weight change, boosted by
+ * `config.acceleration` when ticks arrive in quick succession.
+ */
+export function encoderWeightDelta(config: EncoderConfig, value: number, msSinceLastTick: number): number {
+  if (config.mode === 'absolute') return 0;
+  const ticks = decodeRelativeTicks(config.mode, value);
+  const speed = Math.max(0, Math.min(1, (ACCELERATION_WINDOW_MS - msSinceLastTick) / ACCELERATION_WINDOW_MS));
+  const boost = 1 + config.acceleration * MAX_ACCELERATION_BOOST * speed;
+  return ticks * config.sensitivity * boost;
+}
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { LiveMusicGenerationConfig, Prompt, Scene } from '../types';
+
+/** Settings that can be interpolated; everything else switches when the morph completes. */
+const NUMERIC_CONFIG_KEYS = ['temperature', 'guidance', 'topK', 'density', 'brightness'] as const;
+const OUTGOING_SUFFIX = '-morph-out';
+
+function lerp(from: number, to: number, progress: number) {
+  return from + (to - from) * progress;
+}
+
+/**
+ * Blends prompt weights from a starting state towards a scene. A prompt whose
+ * text changes shows the new text fading in, while the old text is returned
+ * separately in `outgoing`, fading out, to be sent alongside the prompts.
+ */
+export function morphPrompts(
+  from: Map<string, Prompt>,
+  scene: Scene,
+  progress: number,
+): { prompts: Map<string, Prompt>; outgoing: Prompt[] } {
+  const targets = new Map(scene.prompts.map((p) => [p.promptId, p]));
+  const prompts = new Map<string, Prompt>();
+  const outgoing: Prompt[] = [];
+  for (const [promptId, start] of from) {
+    const target = targets.get(promptId);
+    if (!target) {
+      prompts.set(promptId, start);
+    } else if (target.text === start.text) {
+      prompts.set(promptId, { ...start, weight: lerp(start.weight, target.weight, progress) });
+    } else {
+      prompts.set(promptId, {
+        ...start,
+        text: target.text,
+        color: target.color,
+        categoryKey: target.categoryKey,
+        weight: target.weight * progress,
+      });
+      if (start.weight > 0 && progress < 1) {
+        outgoing.push({ ...start, promptId: `${promptId}${OUTGOING_SUFFIX}`, weight: start.weight * (1 - progress) });
+      }
+    }
+  }
+  return { prompts, outgoing };
+}
+
+export function morphConfig(
+  from: LiveMusicGenerationConfig,
+  to: LiveMusicGenerationConfig,
+  progress: number,
+): LiveMusicGenerationConfig {
+  if (progress >= 1) return { ...to };
+  const config = { ...from };
+  for (const key of NUMERIC_CONFIG_KEYS) {
+    const start = from[key];
+    const end = to[key];
+    if (start === undefined || end === undefined) continue;
+    const value = lerp(start, end, progress);
+    config[key] = key === 'topK' ? Math.round(value) : Number(value.toFixed(3));
+  }
+  return config;
+}
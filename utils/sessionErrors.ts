@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type SessionErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'network'
+  | 'session-closed'
+  | 'service-unavailable'
+  | 'filtered'
+  | 'audio-decode'
+  | 'unknown';
+
+/** What the app does about an error: reconnect the session, stop playback, or just tell the user. */
+export type ErrorAction = 'reconnect' | 'stop' | 'toast';
+
+export interface ErrorDecision {
+  action: ErrorAction;
+  message: string;
+}
+
+/** An error from the music session or audio pipeline, tagged with what went wrong. */
+export class SessionError extends Error {
+  constructor(readonly kind: SessionErrorKind, message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+/** Message fragments per kind, checked in order; the first match wins. */
+const PATTERNS: [SessionErrorKind, RegExp][] = [
+  ['auth', /api key not valid|api_key_invalid|unauthenticated|permission denied|\b40[13]\b/i],
+  ['quota', /quota|resource.?exhausted|rate limit|\b429\b/i],
+  ['session-closed', /session is closed|closing or closed state|websocket is not open/i],
+  ['service-unavailable', /unavailable|overloaded|\b503\b/i],
+  ['network', /failed to fetch|network|timed? ?out|offline/i],
+];
+
+function messageOf(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (typeof ErrorEvent !== 'undefined' && error instanceof ErrorEvent) {
+    return error.message || String(error.error ?? '');
+  }
+  if (typeof CloseEvent !== 'undefined' && error instanceof CloseEvent) {
+    return error.reason || `Connection closed with code ${error.code}`;
+  }
+  if (error instanceof Event) return `${error.type} event`;
+  return String(error);
+}
+
+/**
+ * The single place that works out what kind of error something is. Errors
+ * that match no known pattern are `unknown`, except for socket events,
+ * which count as a lost connection.
+ */
+export function classifySessionError(error: unknown): SessionError {
+  if (error instanceof SessionError) return error;
+  const message = messageOf(error);
+  const match = PATTERNS.find(([, pattern]) => pattern.test(message));
+  if (match) return new SessionError(match[0], message, error);
+  if (typeof CloseEvent !== 'undefined' && error instanceof CloseEvent) {
+    return new SessionError('session-closed', message, error);
+  }
+  if (error instanceof Event) return new SessionError('network', message, error);
+  return new SessionError('unknown', message, error);
+}
+
+/** Whether reconnecting could fix the error; bad keys and exhausted quota won't fix themselves. */
+export function isRetryable(error: unknown): boolean {
+  return decideErrorHandling(classifySessionError(error), '').action === 'reconnect';
+}
+
+/** Decides how to react to an error; `context` describes what the app was doing when it happened. */
+export function decideErrorHandling(error: SessionError, context: string): ErrorDecision {
+  switch (error.kind) {
+    case 'auth':
+      return { action: 'stop', message: 'API key not valid. Please check your API_KEY environment variable.' };
+    case 'quota':
+      return { action: 'stop', message: 'Quota exceeded. Please check your API usage.' };
+    case 'network':
+      return { action: 'reconnect', message: 'Network error. Please check your connection and API key.' };
+    case 'session-closed':
+      return { action: 'reconnect', message: 'Connection to the music service was closed.' };
+    case 'service-unavailable':
+      return { action: 'reconnect', message: 'Music service is temporarily unavailable.' };
+    case 'filtered':
+      return { action: 'toast', message: error.message };
+    case 'audio-decode':
+      return { action: 'toast', message: 'Error playing audio. Playback might be affected.' };
+    case 'unknown':
+      return { action: 'toast', message: `${context}: ${error.message}` };
+  }
+}
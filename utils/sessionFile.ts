@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { sanitizeGenerationConfig } from './generationConfig';
+import { validateMappingProfile, validatePromptMapping } from './mappingProfiles';
+import { isNumberInRange, isObject } from './validation';
+import type { LiveMusicGenerationConfig, MappingProfile, MidiBinding, Prompt, PromptMapping, Scene, SceneTrigger, SessionDocument } from '../types';
+
+export const SESSION_FORMAT = 'prompt-dj-midi-session';
+export const SESSION_VERSION = 1;
+
+export interface SessionChange {
+  section: 'Prompts' | 'BPM' | 'Settings' | 'MIDI' | 'Scenes';
+  description: string;
+}
+
+function fail(message: string): never {
+  throw new Error(`Invalid session file: ${message}`);
+}
+
+/** Checks a prompt and returns a copy holding only the known `Prompt` fields. */
+function validatePrompt(prompt: unknown, where: string): Prompt {
+  if (!isObject(prompt) || typeof prompt.promptId !== 'string' || typeof prompt.text !== 'string' ||
+      !isNumberInRange(prompt.weight, 0, 2) || typeof prompt.color !== 'string' ||
+      (prompt.categoryKey !== null && typeof prompt.categoryKey !== 'string') ||
+      (prompt.sourceType !== 'knob' && prompt.sourceType !== 'button')) {
+    fail(`${where} has an invalid prompt.`);
+  }
+  let mapping: PromptMapping;
+  try {
+    mapping = validatePromptMapping(prompt);
+  } catch {
+    fail(`${where} has an invalid MIDI mapping for "${prompt.text}".`);
+  }
+  const { promptId, text, weight, color, categoryKey, sourceType } = prompt;
+  return { promptId, text, weight, ...mapping, color, categoryKey, sourceType };
+}
+
+function validateSceneTrigger(trigger: unknown, sceneName: string): SceneTrigger | null {
+  if (trigger === null || trigger === undefined) return null;
+  if (!isObject(trigger) || (trigger.type !== 'note' && trigger.type !== 'program') ||
+      !isNumberInRange(trigger.channel, 0, 15) || !isNumberInRange(trigger.number, 0, 127) ||
+      (trigger.deviceId !== undefined && trigger.deviceId !== null && typeof trigger.deviceId !== 'string')) {
+    fail(`scene "${sceneName}" has an invalid trigger.`);
+  }
+  const { type, channel, number, deviceId } = trigger;
+  return { type, channel, number, deviceId: deviceId ?? null };
+}
+
+/** Parses and validates an exported session, throwing a readable error if anything is off. */
+export function parseSessionDocument(json: string): SessionDocument {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    fail('not valid JSON.');
+  }
+  if (!isObject(data) || data.format !== SESSION_FORMAT) fail('not a session export.');
+  if (typeof data.version !== 'number' || data.version > SESSION_VERSION) {
+    fail(`version ${data.version} is not supported by this app (up to ${SESSION_VERSION}).`);
+  }
+  if (!Array.isArray(data.prompts)) fail('prompts are missing.');
+  const prompts = data.prompts.map((p: unknown) => validatePrompt(p, 'prompts'));
+
+  const { bpm } = data;
+  if (!isObject(bpm) || !isNumberInRange(bpm.min, 1, 999) || !isNumberInRange(bpm.max, 1, 999) ||
+      bpm.min > bpm.max || !isNumberInRange(bpm.value, 1, 999)) {
+    fail('BPM is missing or invalid.');
+  }
+  if (!isObject(data.config)) fail('generation settings are missing.');
+
+  const { mappings } = data;
+  if (!isObject(mappings) || !Array.isArray(mappings.bindings) || !Array.isArray(mappings.profiles)) {
+    fail('MIDI mappings are missing.');
+  }
+  let profiles: MappingProfile[];
+  let bindings: MidiBinding[];
+  try {
+    profiles = mappings.profiles.map(validateMappingProfile);
+    // Bindings share the profile format, so validate them the same way.
+    ({ bindings } = validateMappingProfile({ name: 'bindings', deviceName: null, prompts: {}, bindings: mappings.bindings }));
+  } catch (e) {
+    fail(e instanceof Error ? e.message : String(e));
+  }
+
+  if (!Array.isArray(data.scenes)) fail('scenes are missing.');
+  const scenes = data.scenes.map((scene: unknown): Scene => {
+    if (!isObject(scene) || typeof scene.id !== 'string' || typeof scene.name !== 'string' ||
+        !Array.isArray(scene.prompts) || !isNumberInRange(scene.bpm, 1, 999) || !isObject(scene.config) ||
+        !isNumberInRange(scene.createdAt, 0, Number.MAX_SAFE_INTEGER)) {
+      fail('a scene is invalid.');
+    }
+    const { id, name, bpm, createdAt } = scene;
+    return {
+      id,
+      name,
+      prompts: scene.prompts.map((p: unknown) => validatePrompt(p, `scene "${name}"`)),
+      bpm,
+      config: sanitizeGenerationConfig(scene.config),
+      trigger: validateSceneTrigger(scene.trigger, name),
+      createdAt,
+    };
+  });
+  return {
+    format: SESSION_FORMAT,
+    version: data.version,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    prompts,
+    bpm: { value: bpm.value, min: bpm.min, max: bpm.max },
+    config: sanitizeGenerationConfig(data.config),
+    mappings: { bindings, profiles },
+    scenes,
+  };
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? 'auto' : String(value);
+}
+
+/** Lists what importing `incoming` would change compared to `current`. */
+export function diffSessionDocuments(current: SessionDocument, incoming: SessionDocument): SessionChange[] {
+  const changes: SessionChange[] = [];
+
+  const currentPrompts = new Map(current.prompts.map((p) => [p.promptId, p]));
+  let mappingChanges = 0;
+  for (const prompt of incoming.prompts) {
+    const before = currentPrompts.get(prompt.promptId);
+    if (!before) continue;
+    if (before.text !== prompt.text) {
+      changes.push({ section: 'Prompts', description: `"${before.text}" → "${prompt.text}" (${prompt.weight.toFixed(2)})` });
+    } else if (before.weight !== prompt.weight) {
+      changes.push({ section: 'Prompts', description: `"${prompt.text}" weight ${before.weight.toFixed(2)} → ${prompt.weight.toFixed(2)}` });
+    }
+    if (before.cc !== prompt.cc || before.note !== prompt.note || before.channel !== prompt.channel || before.hiRes !== prompt.hiRes) {
+      mappingChanges++;
+    }
+  }
+
+  if (current.bpm.value !== incoming.bpm.value) {
+    changes.push({ section: 'BPM', description: `${current.bpm.value} → ${incoming.bpm.value}` });
+  }
+  if (current.bpm.min !== incoming.bpm.min || current.bpm.max !== incoming.bpm.max) {
+    changes.push({
+      section: 'BPM',
+      description: `Range ${current.bpm.min}-${current.bpm.max} → ${incoming.bpm.min}-${incoming.bpm.max}`,
+    });
+  }
+
+  const configKeys = new Set([...Object.keys(current.config), ...Object.keys(incoming.config)]) as Set<keyof LiveMusicGenerationConfig>;
+  for (const key of configKeys) {
+    if (current.config[key] !== incoming.config[key]) {
+      changes.push({ section: 'Settings', description: `${key}: ${formatValue(current.config[key])} → ${formatValue(incoming.config[key])}` });
+    }
+  }
+
+  if (mappingChanges > 0) {
+    changes.push({ section: 'MIDI', description: `${mappingChanges} knob/pad mapping${mappingChanges === 1 ? '' : 's'} change` });
+  }
+  if (JSON.stringify(current.mappings.bindings) !== JSON.stringify(incoming.mappings.bindings)) {
+    changes.push({ section: 'MIDI', description: `Global control bindings replaced (${incoming.mappings.bindings.length})` });
+  }
+  const profilesByName = new Map(current.mappings.profiles.map((p) => [p.name, p]));
+  for (const profile of incoming.mappings.profiles) {
+    const existing = profilesByName.get(profile.name);
+    if (!existing) {
+      changes.push({ section: 'MIDI', description: `Add profile "${profile.name}"` });
+    } else if (JSON.stringify(existing) !== JSON.stringify(profile)) {
+      changes.push({ section: 'MIDI', description: `Update profile "${profile.name}"` });
+    }
+  }
+
+  const scenesById = new Map<string, Scene>(current.scenes.map((s) => [s.id, s]));
+  for (const scene of incoming.scenes) {
+    const existing = scenesById.get(scene.id);
+    if (!existing) {
+      changes.push({ section: 'Scenes', description: `Add "${scene.name}"` });
+    } else if (JSON.stringify(existing) !== JSON.stringify(scene)) {
+      changes.push({ section: 'Scenes', description: `Update "${scene.name}"` });
+    }
+  }
+  return changes;
+}
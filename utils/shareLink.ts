@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { sanitizeGenerationConfig } from './generationConfig';
+import { isObject } from './validation';
+import type { LiveMusicGenerationConfig, Prompt } from '../types';
+
+/** Fragment prefix marking a shared setup, e.g. `#setup=eyJ2Ijox...`. */
+const FRAGMENT_PREFIX = '#setup=';
+const SHARE_VERSION = 1;
+
+/** Texts and weights by prompt id, plus the BPM and generation settings, as decoded from a link. */
+export interface SharedSetup {
+  prompts: Map<string, Pick<Prompt, 'text' | 'weight'>>;
+  bpm: number;
+  config: LiveMusicGenerationConfig;
+}
+
+/**
+ * Compact wire format: prompts are `[id, text, weight]` tuples with
+ * weights rounded to two decimals, and unset settings are left out.
+ */
+interface EncodedSetup {
+  v: number;
+  p: [string, string, number][];
+  b: number;
+  c: LiveMusicGenerationConfig;
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((byte) => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+}
+
+/** Builds a link to the current page that reproduces the given prompts, BPM and settings. */
+export function buildShareLink(prompts: Prompt[], bpm: number, config: LiveMusicGenerationConfig): string {
+  const encoded: EncodedSetup = {
+    v: SHARE_VERSION,
+    p: prompts.map((p) => [p.promptId, p.text, Math.round(p.weight * 100) / 100]),
+    b: Math.round(bpm * 10) / 10,
+    c: JSON.parse(JSON.stringify(config)),
+  };
+  const url = new URL(window.location.href);
+  url.hash = '';
+  return `${url.toString()}${FRAGMENT_PREFIX}${toBase64Url(JSON.stringify(encoded))}`;
+}
+
+/** Whether a URL fragment holds a shared setup, malformed or not. */
+export function isShareFragment(hash: string): boolean {
+  return hash.startsWith(FRAGMENT_PREFIX);
+}
+
+/** Decodes a shared setup from a URL fragment; returns null if there is none or it is malformed. */
+export function decodeShareFragment(hash: string): SharedSetup | null {
+  if (!isShareFragment(hash)) return null;
+  try {
+    const data: unknown = JSON.parse(fromBase64Url(hash.slice(FRAGMENT_PREFIX.length)));
+    if (!isObject(data) || data.v !== SHARE_VERSION || !Array.isArray(data.p) || typeof data.b !== 'number' ||
+        !isObject(data.c)) {
+      return null;
+    }
+    const prompts = new Map<string, Pick<Prompt, 'text' | 'weight'>>();
+    for (const entry of data.p) {
+      if (!Array.isArray(entry)) return null;
+      const [promptId, text, weight] = entry;
+      if (typeof promptId !== 'string' || typeof text !== 'string' || typeof weight !== 'number') return null;
+      prompts.set(promptId, { text, weight: Math.max(0, Math.min(2, weight)) });
+    }
+    return { prompts, bpm: data.b, config: sanitizeGenerationConfig(data.c) };
+  } catch (e) {
+    console.error('Failed to decode shared setup from URL', e);
+    return null;
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { TakeoverMode } from '../types';
+
+/** How close, in weight units, the knob has to get to the weight to count as caught. */
+const PICKUP_TOLERANCE = 2 / 127;
+const MAX_WEIGHT = 2;
+
+export interface TakeoverState {
+  /** Last hardware position in weight units, null until the knob is first moved. */
+  hardwareValue: number | null;
+  /** Whether the knob currently controls the weight directly. */
+  engaged: boolean;
+}
+
+/**
+ * Resolves a hardware knob position into a new weight for the given takeover
+ * mode. Returns the next weight and updates `state` in place.
+ */
+export function applyTakeover(
+  mode: TakeoverMode,
+  currentWeight: number,
+  incoming: number,
+  state: TakeoverState,
+): number {
+  const previous = state.hardwareValue;
+  state.hardwareValue = incoming;
+
+  if (mode === 'jump' || state.engaged) {
+    state.engaged = true;
+    return incoming;
+  }
+
+  if (Math.abs(incoming - currentWeight) <= PICKUP_TOLERANCE) {
+    state.engaged = true;
+    return incoming;
+  }
+  if (previous === null) {
+    return currentWeight;
+  }
+
+  if (mode === 'pickup') {
+    const crossed = Math.min(previous, incoming) <= currentWeight && currentWeight <= Math.max(previous, incoming);
+    if (crossed) {
+      state.engaged = true;
+      return incoming;
+    }
+    return currentWeight;
+  }
+
+  // scale: move the weight over whatever range is left in the knob's direction of travel,
+  // so knob and weight meet at the end stop at the latest.
+  let next = currentWeight;
+  if (incoming > previous && previous < MAX_WEIGHT) {
+    next = currentWeight + (incoming - previous) * (MAX_WEIGHT - currentWeight) / (MAX_WEIGHT - previous);
+  } else if (incoming < previous && previous > 0) {
+    next = currentWeight - (previous - incoming) * currentWeight / previous;
+  }
+  next = Math.max(0, Math.min(MAX_WEIGHT, next));
+  if (Math.abs(incoming - next) <= PICKUP_TOLERANCE) {
+    state.engaged = true;
+    return incoming;
+  }
+  return next;
+}